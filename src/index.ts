@@ -1,14 +1,164 @@
-import express, { Express, Request, Response } from 'express';
+import express, { Express, NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
 import connectDB from './config/db';
 
 // সকল মডেল ইম্পোর্ট করা হচ্ছে
 import Product, { IProduct } from './models/ProductModel';
 import Category from './models/CategoryModel';
 import Order, { IOrder, IOrderItem } from './models/OrderModel'; // IOrder, IOrderItem ইম্পোর্ট করা হলো
-import User from './models/UserModel';
+import User, { IUser, UserRole } from './models/UserModel';
+import Coupon from './models/CouponModel';
+import DeliveryZone from './models/DeliveryZoneModel';
+import TaxRule from './models/TaxRuleModel';
+import Payment from './models/PaymentModel';
+import Review from './models/ReviewModel';
+import ProductAlert from './models/ProductAlertModel';
+import {
+    getIdTokenVerifier,
+    hashPassword,
+    issueTokens,
+    revokeAllRefreshTokens,
+    revokeRefreshToken,
+    rotateRefreshToken,
+    verifyPassword,
+} from './utils/auth';
+import { releaseStock, reserveStock } from './utils/inventory';
+import {
+    buildCategoryTree,
+    findCategoryByIdOrSlug,
+    getCategoryBreadcrumbs,
+    getCategoryWithDescendantIds,
+    validateCategoryParent,
+} from './utils/categories';
+import {
+    buildProductListPipeline,
+    DEFAULT_PAGE_LIMIT,
+    formatPriceBuckets,
+    refreshProductSearchFields,
+} from './utils/products';
+import { buildSearchStages } from './utils/search';
+import { getLocalUploadDir } from './utils/storage';
+import { evaluateCoupon, redeemCoupon, releaseCoupon, roundMoney } from './utils/coupons';
+import { buildPricedLines, calculateCheckoutTotals } from './utils/checkout';
+import {
+    generateTransactionId,
+    getPaymentProvider,
+    processPaymentEvent,
+} from './utils/payments';
+import { MOCK_SIGNATURE_HEADER, signMockPayload } from './utils/payments/mock';
+import { findDeliveredOrderWithProduct, refreshProductRating } from './utils/reviews';
+import { notifyProductChange } from './utils/productAlerts';
+import { notifyOrderPlaced, startNotificationWorker } from './utils/notifications';
+import {
+    getCustomerBreakdown,
+    getLowStockProducts,
+    getSalesSummary,
+    getSalesTimeline,
+    getStatusFunnel,
+    getTopCategories,
+    getTopProducts,
+    parseDateRange,
+    parseInterval,
+    parseLimit,
+} from './utils/analytics';
+import {
+    deleteAccount,
+    findAddress,
+    MAX_ADDRESSES,
+    normalizeDefaultAddress,
+    resolveShippingAddress,
+} from './utils/users';
+import {
+    buildInvoicePdf,
+    buildOrdersCsv,
+    buildPackingSlipsPdf,
+    formatInvoiceNumber,
+    PopulatedOrderItem,
+    PopulatedOrderUser,
+} from './utils/documents';
+import { applyCartUpdate, resolveCartIssues, summarizeCart } from './utils/cart';
+import { findGuestCart, findOrCreateGuestCart, getCartToken, mergeGuestCartIntoUser, saveGuestCart } from './utils/guestCart';
+import { deleteImages, storeImage, storeImages, uploadImage, uploadImages, uploadSpreadsheet } from './utils/uploads';
+import { exportProducts, importProducts, readSpreadsheet } from './utils/productImport';
+import {
+    changeOrderStatus,
+    createReturnRequest,
+    assertOrderVelocity,
+    resolveReturnRequest,
+} from './utils/orders';
+import { ApiError, errorHandler, notFoundHandler } from './utils/errors';
+import { validate, validatedQuery } from './utils/validation';
+import { rateLimit } from './utils/rateLimit';
+import { getBodyLimit, sanitizeInput, securityHeaders } from './utils/security';
+import { describeMiddleware } from './utils/routeMeta';
+import { getOpenApiDocument, getSwaggerUiAssetsDir, sendApiDocsPage, SWAGGER_UI_ASSETS_PATH } from './utils/openapi';
+import {
+    addressBody,
+    addressParams,
+    addressUpdateBody,
+    adminReviewQuery,
+    alertTypesBody,
+    analyticsQuery,
+    cancelOrderBody,
+    cartLineQuery,
+    cartUpdateBody,
+    categoryBody,
+    categoryDeleteQuery,
+    categoryIdParams,
+    categoryUpdateBody,
+    checkoutBody,
+    couponBody,
+    couponCodeBody,
+    couponUpdateBody,
+    deleteAccountBody,
+    deliveryZoneBody,
+    deliveryZoneUpdateBody,
+    emailParams,
+    idParams,
+    idTokenBody,
+    imageUrlBody,
+    initiatePaymentBody,
+    loginBody,
+    lowStockQuery,
+    mockPaymentParams,
+    mockSimulateBody,
+    moderationBody,
+    moveToCartBody,
+    navStatusBody,
+    orderExportQuery,
+    orderIdParams,
+    orderStatusBody,
+    paymentCallbackParams,
+    productBody,
+    productExportQuery,
+    productIdParams,
+    productImportQuery,
+    productListQuery,
+    productStatusBody,
+    productUpdateBody,
+    profileBody,
+    providerParams,
+    refreshTokenBody,
+    relatedProductsQuery,
+    resolveReturnBody,
+    returnListQuery,
+    returnParams,
+    returnRequestBody,
+    reviewBody,
+    reviewListQuery,
+    reviewUpdateBody,
+    roleBody,
+    signupBody,
+    slugParams,
+    suggestQuery,
+    taxRuleBody,
+    taxRuleUpdateBody,
+    wishlistBody,
+} from './utils/schemas';
 
 dotenv.config();
 connectDB();
@@ -16,7 +166,12 @@ connectDB();
 const app: Express = express();
 const port = process.env.PORT || 9000;
 
+// Vercel/রিভার্স প্রক্সির পেছনে req.ip যেন আসল ক্লায়েন্টের হয় (রেট লিমিট IP দিয়ে হয়)
+app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS) || 0);
+app.disable('x-powered-by');
+
 // Middleware Setup
+app.use(securityHeaders);
 app.use(cors({
     origin: [
         "http://localhost:5173", // লোকাল ডেভেলপমেন্টের জন্য
@@ -25,536 +180,1487 @@ app.use(cors({
     credentials: true
 }));
 
-app.use(express.json());
+// পেমেন্ট ওয়েবহুকের সিগনেচার যাচাইয়ের জন্য raw body রেখে দেওয়া
+app.use(express.json({
+    limit: getBodyLimit(),
+    verify: (req, _res, buf) => {
+        (req as any).rawBody = buf;
+    },
+}));
+// SSLCommerz কলব্যাক form-urlencoded এ আসে
+app.use('/api/payments', express.urlencoded({ extended: false, limit: getBodyLimit() }));
+
+// Mongo অপারেটর ($gt, $where ...) বা prototype key থাকা ইনপুট কোনো রুটে পৌঁছায় না
+app.use(sanitizeInput);
+app.use('/api', rateLimit('api'));
+
+// লোকাল ডিস্কে আপলোড করা ছবিগুলো সার্ভ করা
+app.use('/uploads', express.static(getLocalUploadDir(), { maxAge: '30d', immutable: true }));
 
 // ================== AUTHENTICATION & JWT ==================
-app.post('/jwt', (req: Request, res: Response) => {
+// গেস্ট কার্ট মেশাতে সমস্যা হলেও লগইন/সাইনআপ আটকাবে না
+const mergeGuestCart = (user: IUser, token: string | null) =>
+    mergeGuestCartIntoUser(user, token).catch(error => {
+        console.error("Guest Cart Merge Error:", error);
+        return false;
+    });
+
+// ✅ Firebase (বা অন্য প্রোভাইডার) এর ID token যাচাই করে তবেই টোকেন দেওয়া হবে
+// Firebase ID token যাচাই (লগইন আর সাইনআপ দুই জায়গাতেই)
+const verifyIdToken = async (idToken: string) => {
+    const verifier = getIdTokenVerifier();
+    if (!verifier) throw new ApiError(501, 'ID token login is not configured.');
     try {
-        const user = req.body;
-        const secret = process.env.ACCESS_TOKEN_SECRET;
-        if (!secret) return res.status(500).send({ message: 'JWT secret not configured!' });
-        const token = jwt.sign(user, secret, { expiresIn: '1h' });
-        res.send({ token });
+        return await verifier.verify(idToken);
     } catch (error) {
-        console.error("JWT Error:", error);
-        res.status(500).send({ message: 'Failed to generate token.' });
+        throw new ApiError(401, 'unauthorized access', { code: 'INVALID_TOKEN' });
     }
+};
+
+app.post('/jwt', rateLimit('auth'), validate({ body: idTokenBody }), async (req: Request, res: Response) => {
+    const identity = await verifyIdToken(req.body.idToken);
+
+    const user = await User.findOne({ uid: identity.uid });
+    if (!user) throw new ApiError(404, 'User not registered.');
+
+    const cartMerged = await mergeGuestCart(user, getCartToken(req));
+    res.send({ ...(await issueTokens(user)), cartMerged });
+});
+
+// লোকাল email/password লগইন
+app.post('/api/auth/login', rateLimit('auth'), validate({ body: loginBody }), async (req: Request, res: Response) => {
+    const { email, password } = req.body;
+    const user = await User.findOne({ email }).select('+passwordHash');
+    if (!user || !user.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+        throw new ApiError(401, 'Invalid email or password.');
+    }
+    const cartMerged = await mergeGuestCart(user, getCartToken(req));
+    res.send({ ...(await issueTokens(user)), cartMerged });
+});
+
+// রিফ্রেশ টোকেন দিয়ে নতুন access token (রোটেশন সহ)
+app.post('/api/auth/refresh', rateLimit('refresh'), validate({ body: refreshTokenBody }), async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+    const tokens = await rotateRefreshToken(refreshToken, (id) => User.findById(id));
+    res.send(tokens);
+});
+
+app.post('/api/auth/logout', validate({ body: refreshTokenBody }), async (req: Request, res: Response) => {
+    const { refreshToken } = req.body;
+    await revokeRefreshToken(refreshToken);
+    res.send({ message: 'Logged out successfully.' });
 });
 
 // ================== MIDDLEWARE ==================
-const verifyToken = (req: Request, res: Response, next: Function) => {
+const verifyToken = describeMiddleware((req: Request, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
-    if (!authHeader) return res.status(401).send({ message: 'unauthorized access' });
+    if (!authHeader) return next(new ApiError(401, 'unauthorized access'));
     const token = authHeader.split(' ')[1];
     jwt.verify(token, process.env.ACCESS_TOKEN_SECRET!, (err, decoded) => {
-        if (err) return res.status(401).send({ message: 'unauthorized access' });
+        if (err) return next(new ApiError(401, 'unauthorized access', { code: 'INVALID_TOKEN' }));
         (req as any).decoded = decoded;
         next();
     });
-};
+}, { auth: true });
+
+// ✅ Role check: verifyToken এর পরে ব্যবহার করতে হবে। 'admin' সবসময় পাস করবে,
+// বাকি রোলগুলো শুধু যেখানে অনুমতি দেওয়া আছে সেখানে।
+const verifyRole = (...allowedRoles: UserRole[]) => describeMiddleware(async (req: Request, res: Response, next: NextFunction) => {
+    const email = (req as any).decoded?.email;
+    if (!email) throw new ApiError(403, 'forbidden access');
+    const user = await User.findOne({ email });
+    if (!user || (user.role !== 'admin' && !allowedRoles.includes(user.role))) {
+        throw new ApiError(403, 'forbidden access');
+    }
+    (req as any).user = user;
+    next();
+}, { roles: ['admin', ...allowedRoles.filter(role => role !== 'admin')] });
+
+const verifyAdmin = verifyRole('admin');
+const verifyCatalogManager = verifyRole('catalog-manager');
+const verifyOrderManager = verifyRole('order-manager');
+
+// সব ডিভাইস থেকে লগআউট
+app.post('/api/auth/logout-all', verifyToken, async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    await revokeAllRefreshTokens(String(user._id));
+    res.send({ message: 'Logged out from all devices.' });
+});
 
 // ================== USER API ROUTES ==================
 // ... আপনার বিদ্যমান /api/users রুটগুলো এখানে থাকবে ...
-app.get('/api/users', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const users = await User.find({}).sort({ createdAt: -1 });
-        res.status(200).json(users);
-    } catch (error) {
-        console.error("Fetch Users Error:", error);
-        res.status(500).json({ message: 'Server error fetching users.' });
+app.get('/api/users', verifyToken, verifyAdmin, async (req: Request, res: Response) => {
+    const users = await User.find({}).sort({ createdAt: -1 });
+    res.status(200).json(users);
+});
+
+app.post('/api/users', rateLimit('signup'), validate({ body: signupBody }), async (req: Request, res: Response) => {
+    // role শুধু অ্যাডমিন বদলাতে পারে (PATCH /api/users/:id/role); signupBody তে role নেই
+    const { password, cartToken, idToken, ...userData } = req.body;
+    // Firebase অ্যাকাউন্ট: uid আর email যাচাই করা টোকেন থেকে, body তে পাঠানো email উপেক্ষা করা হয়
+    if (idToken) {
+        const identity = await verifyIdToken(idToken);
+        if (!identity.email) throw new ApiError(400, 'The ID token has no email address.', { code: 'EMAIL_REQUIRED' });
+        userData.uid = identity.uid;
+        userData.email = identity.email;
     }
+    const existingUser = await User.findOne(userData.uid ? { $or: [{ email: userData.email }, { uid: userData.uid }] } : { email: userData.email });
+    if (existingUser) {
+        return res.status(200).json({ message: 'User already exists.' });
+    }
+    const newUser = new User(userData);
+    // লোকাল অ্যাকাউন্ট: পাসওয়ার্ড হ্যাশ করে রাখা হবে, uid নিজেরা বানাবো
+    if (password !== undefined) {
+        newUser.passwordHash = await hashPassword(password);
+        newUser.uid = `local:${crypto.randomUUID()}`;
+    }
+    await newUser.save();
+    await mergeGuestCart(newUser, getCartToken(req));
+    res.status(201).json(newUser);
 });
 
-app.post('/api/users', async (req: Request, res: Response) => {
-    try {
-        const userData = req.body;
-        const existingUser = await User.findOne({ email: userData.email });
-        if (existingUser) {
-            return res.status(200).json({ message: 'User already exists.' });
+// ================== PROFILE & ADDRESS BOOK ==================
+app.get('/api/users/me', verifyToken, async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email }).select('-cart -wishlist');
+    if (!user) throw new ApiError(404, 'User not found');
+    res.status(200).json(user);
+});
+
+// ✅ প্রোফাইল আপডেট - শুধু name, phone, image, language (নোটিফিকেশনের ভাষা); role/email এখান থেকে বদলানো যায় না
+app.patch('/api/users/me', verifyToken, validate({ body: profileBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    user.set(req.body);
+    await user.save();
+    res.status(200).json(user);
+});
+
+// ✅ অ্যাকাউন্ট মুছে ফেলা: পুরনো অর্ডার থাকে, কিন্তু নাম/ফোন/ঠিকানা সরিয়ে ফেলা হয়।
+// লোকাল অ্যাকাউন্টে body.password দিয়ে নিশ্চিত করতে হবে।
+app.delete('/api/users/me', verifyToken, validate({ body: deleteAccountBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email }).select('+passwordHash');
+    if (!user) throw new ApiError(404, 'User not found');
+    if (user.passwordHash) {
+        const { password } = req.body;
+        if (!password || !(await verifyPassword(password, user.passwordHash))) {
+            throw new ApiError(401, 'Password is incorrect.');
         }
-        const newUser = new User(userData);
-        await newUser.save();
-        res.status(201).json(newUser);
-    } catch (error) {
-        console.error("❌ Create User Error:", error);
-        res.status(500).json({ message: 'Failed to create user.' });
     }
+    await deleteAccount(user);
+    res.status(200).json({ message: 'Your account has been deleted.' });
 });
 
-app.get('/api/users/admin/:email', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const email = req.params.email;
-        if (email !== (req as any).decoded.email) return res.status(403).send({ message: 'forbidden access' });
-        const user = await User.findOne({ email: email });
-        const isAdmin = user?.role === 'admin';
-        res.status(200).json({ isAdmin });
-    } catch (error) {
-        console.error("Admin Check Error:", error);
-        res.status(500).json({ message: 'Server error' });
-    }
+app.get('/api/users/me/addresses', verifyToken, async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email }).select('addresses');
+    if (!user) throw new ApiError(404, 'User not found');
+    res.status(200).json(user.addresses);
 });
 
-app.patch('/api/users/:id/role', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const { role } = req.body;
-        if (!role || !['user', 'admin'].includes(role)) return res.status(400).json({ message: 'Invalid role provided.' });
-        const updatedUser = await User.findByIdAndUpdate(id, { role }, { new: true });
-        if (!updatedUser) return res.status(404).json({ message: 'User not found.' });
-        res.status(200).json(updatedUser);
-    } catch (error) {
-        console.error("Update Role Error:", error);
-        res.status(500).json({ message: 'Server error updating user role.' });
+// প্রথম ঠিকানা বা isDefault: true দিলে সেটি ডিফল্ট হয়
+app.post('/api/users/me/addresses', verifyToken, validate({ body: addressBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    if (user.addresses.length >= MAX_ADDRESSES) {
+        throw new ApiError(400, `You can save up to ${MAX_ADDRESSES} addresses.`);
     }
+
+    const { isDefault, ...fields } = req.body;
+    user.addresses.push(fields);
+    const address = user.addresses[user.addresses.length - 1];
+    normalizeDefaultAddress(user, isDefault === true ? address._id : undefined);
+    await user.save();
+    res.status(201).json(user.addresses);
+});
+
+app.patch('/api/users/me/addresses/:addressId', verifyToken, validate({ params: addressParams, body: addressUpdateBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const address = findAddress(user, req.params.addressId);
+    const { isDefault, ...updates } = req.body;
+    Object.assign(address, updates);
+    // ডিফল্ট সরানো যায় না, অন্য ঠিকানাকে ডিফল্ট করতে হয়
+    normalizeDefaultAddress(user, isDefault === true ? address._id : undefined);
+    await user.save();
+    res.status(200).json(user.addresses);
+});
+
+// ডিফল্ট ঠিকানা মুছলে প্রথম ঠিকানাটি ডিফল্ট হয়
+app.delete('/api/users/me/addresses/:addressId', verifyToken, validate({ params: addressParams }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const address = findAddress(user, req.params.addressId);
+    user.set('addresses', user.addresses.filter(a => a !== address));
+    normalizeDefaultAddress(user);
+    await user.save();
+    res.status(200).json(user.addresses);
+});
+
+app.get('/api/users/admin/:email', verifyToken, validate({ params: emailParams }), async (req: Request, res: Response) => {
+    const email = req.params.email;
+    if (email !== (req as any).decoded.email) throw new ApiError(403, 'forbidden access');
+    const user = await User.findOne({ email: email });
+    const isAdmin = user?.role === 'admin';
+    res.status(200).json({ isAdmin, role: user?.role || null });
+});
+
+app.patch('/api/users/:id/role', verifyToken, verifyAdmin, validate({ params: idParams, body: roleBody }), async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { role } = req.body;
+    const updatedUser = await User.findByIdAndUpdate(id, { role }, { new: true });
+    if (!updatedUser) throw new ApiError(404, 'User not found.');
+    res.status(200).json(updatedUser);
 });
 
 
 // ================== CART & WISHLIST API ROUTES ==================
 // ... আপনার বিদ্যমান /api/cart এবং /api/wishlist রুটগুলো এখানে থাকবে ...
 // ================== CART & WISHLIST API ROUTES ==================
+// ✅ কার্ট সামারি: লাইন টোটাল, সাবটোটাল আর প্রতি লাইনের সতর্কবার্তা (দাম বদলেছে, স্টক নেই, প্রোডাক্ট মুছে গেছে)
 app.get('/api/cart', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const userEmail = (req as any).decoded.email;
-        const user = await User.findOne({ email: userEmail }).populate('cart.product');
-        if (!user) return res.status(404).json({ message: 'User not found' });
-        res.status(200).json(user.cart);
-    } catch (error) { res.status(500).json({ message: 'Error fetching cart' }); }
+    const userEmail = (req as any).decoded.email;
+    const user = await User.findOne({ email: userEmail });
+    if (!user) throw new ApiError(404, 'User not found');
+    res.status(200).json(await summarizeCart(user.cart));
 });
 
 // ✅ [FIXED LOGIC] - Add/Update item quantity in cart
-app.post('/api/cart', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { productId, quantity } = req.body; // quantity is now OPTIONAL
-        const userEmail = (req as any).decoded.email;
-        const user = await User.findOne({ email: userEmail });
-        if (!user) return res.status(404).json({ message: 'User not found' });
-
-        const cartItemIndex = user.cart.findIndex(item => item.product.toString() === productId);
-
-        if (cartItemIndex > -1) {
-            // Item already in cart
-            if (quantity !== undefined) {
-                // If quantity is provided (e.g., 5, or 1), SET it.
-                user.cart[cartItemIndex].quantity = Number(quantity);
-            } else {
-                // If quantity NOT provided (e.g., product page "Add to Cart"), INCREMENT by 1.
-                user.cart[cartItemIndex].quantity += 1;
-            }
-        } else {
-            // New item
-            // If quantity is provided, use it. Otherwise, default to 1.
-            user.cart.push({ product: productId, quantity: Number(quantity) || 1 });
-        }
-
-        // Filter out items where quantity is 0 or less
-        user.cart = user.cart.filter(item => item.quantity > 0);
+// প্রোডাক্ট আছে কিনা, অ্যাক্টিভ কিনা আর স্টক যথেষ্ট কিনা যাচাই করে তবেই কার্টে রাখা হয়
+app.post('/api/cart', verifyToken, validate({ body: cartUpdateBody }), async (req: Request, res: Response) => {
+    const userEmail = (req as any).decoded.email;
+    const user = await User.findOne({ email: userEmail });
+    if (!user) throw new ApiError(404, 'User not found');
+
+    user.set('cart', await applyCartUpdate(user.cart, req.body));
+    await user.save();
+    res.status(200).json(await summarizeCart(user.cart));
+});
 
-        await user.save();
-        await user.populate('cart.product');
-        res.status(200).json(user.cart);
+// ✅ সতর্কবার্তাগুলো মেনে নিয়ে কার্ট ঠিক করা: মুছে যাওয়া/স্টক-আউট লাইন বাদ, পরিমাণ স্টক পর্যন্ত, দাম বর্তমান দামে
+app.post('/api/cart/sync', verifyToken, async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
 
-    } catch (error) { 
-        console.error("Cart Add/Update Error:", error);
-        res.status(500).json({ message: 'Error updating cart' }); 
-    }
+    const before = await summarizeCart(user.cart);
+    user.set('cart', resolveCartIssues(before));
+    await user.save();
+    res.status(200).json({ ...(await summarizeCart(user.cart)), resolvedIssues: before.items.filter(line => line.issues.length > 0) });
 });
 
 // Remove item from cart (This is also fixed by the POST logic, but good to keep)
-app.delete('/api/cart/:productId', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { productId } = req.params;
-        const userEmail = (req as any).decoded.email;
-        const user = await User.findOneAndUpdate(
-            { email: userEmail },
-            { $pull: { cart: { product: productId } } },
-            { new: true }
-        ).populate('cart.product');
-        res.status(200).json(user?.cart);
-    } catch (error) { res.status(500).json({ message: 'Error removing from cart' }); }
+// ?variantId=... দিলে শুধু সেই ভ্যারিয়েন্টের লাইন, নাহলে প্রোডাক্টের সব লাইন মুছবে
+app.delete('/api/cart/:productId', verifyToken, validate({ params: productIdParams, query: cartLineQuery }), async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const { variantId } = req.query;
+    const userEmail = (req as any).decoded.email;
+    const user = await User.findOneAndUpdate(
+        { email: userEmail },
+        { $pull: { cart: typeof variantId === 'string' ? { product: productId, variant: variantId } : { product: productId } } },
+        { new: true }
+    );
+    if (!user) throw new ApiError(404, 'User not found');
+    res.status(200).json(await summarizeCart(user.cart));
+});
+
+// ✅ চেকআউটের আগে কুপনের প্রভাব দেখা (body: { code }) - কুপন এখানে redeem হয় না
+app.post('/api/cart/apply-coupon', verifyToken, validate({ body: couponCodeBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email }).populate('cart.product');
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const lines = buildPricedLines(user.cart);
+    if (lines.length === 0) throw new ApiError(400, 'Cart is empty.');
+
+    const { breakdown } = await evaluateCoupon(req.body.code, lines, user._id);
+    const subtotal = roundMoney(lines.reduce((total, line) => total + line.price * line.quantity, 0));
+    res.status(200).json({
+        code: breakdown.code,
+        subtotal,
+        discount: breakdown.discount,
+        total: roundMoney(subtotal - breakdown.discount),
+        breakdown,
+    });
 });
 
 app.get('/api/wishlist', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const userEmail = (req as any).decoded.email;
-        const user = await User.findOne({ email: userEmail }).populate('wishlist');
-        if (!user) return res.status(404).json({ message: 'User not found' });
-        res.status(200).json(user.wishlist);
-    } catch (error) {
-        res.status(500).json({ message: 'Error fetching wishlist' });
+    const userEmail = (req as any).decoded.email;
+    const user = await User.findOne({ email: userEmail }).populate('wishlist');
+    if (!user) throw new ApiError(404, 'User not found');
+    res.status(200).json(user.wishlist);
+});
+
+app.post('/api/wishlist', verifyToken, validate({ body: wishlistBody }), async (req: Request, res: Response) => {
+    const { productId } = req.body;
+    const userEmail = (req as any).decoded.email;
+    const user = await User.findOneAndUpdate(
+        { email: userEmail },
+        { $addToSet: { wishlist: productId } },
+        { new: true }
+    ).populate('wishlist');
+    res.status(200).json(user?.wishlist);
+});
+
+app.delete('/api/wishlist/:productId', verifyToken, validate({ params: productIdParams }), async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const user = await User.findOneAndUpdate(
+        { email: (req as any).decoded.email },
+        { $pull: { wishlist: productId } },
+        { new: true }
+    ).populate('wishlist');
+    if (!user) throw new ApiError(404, 'User not found');
+    // উইশলিস্ট থেকে সরালে অ্যালার্ট সাবস্ক্রিপশনও বাতিল
+    await ProductAlert.deleteOne({ user: user._id, product: productId });
+    res.status(200).json(user.wishlist);
+});
+
+// ✅ উইশলিস্ট থেকে কার্টে: কার্টের একই যাচাই (স্টক, অ্যাক্টিভ, ভ্যারিয়েন্ট) পেরোলে তবেই উইশলিস্ট থেকে সরবে
+app.post('/api/wishlist/:productId/move-to-cart', verifyToken, validate({ params: productIdParams, body: moveToCartBody }), async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    if (!user.wishlist.some(id => String(id) === productId)) {
+        throw new ApiError(404, 'Product is not in your wishlist.');
     }
+
+    const { variantId, quantity } = req.body;
+    user.set('cart', await applyCartUpdate(user.cart, { productId, variantId, quantity }));
+    user.set('wishlist', user.wishlist.filter(id => String(id) !== productId));
+    await user.save();
+    await ProductAlert.deleteOne({ user: user._id, product: productId });
+
+    await user.populate('wishlist');
+    res.status(200).json({ cart: await summarizeCart(user.cart), wishlist: user.wishlist });
 });
 
-app.post('/api/wishlist', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { productId } = req.body;
-        const userEmail = (req as any).decoded.email;
-        const user = await User.findOneAndUpdate(
-            { email: userEmail },
-            { $addToSet: { wishlist: productId } },
-            { new: true }
-        ).populate('wishlist');
-        res.status(200).json(user?.wishlist);
-    } catch (error) {
-        res.status(500).json({ message: 'Error adding to wishlist' });
+// ✅ back-in-stock / ডিসকাউন্ট অ্যালার্ট (body: { types: ['back_in_stock', 'discount'] }, খালি অ্যারে মানে বাতিল)
+// প্রোডাক্টটি উইশলিস্টে না থাকলে যোগ হয়ে যায়
+app.put('/api/wishlist/:productId/alerts', verifyToken, validate({ params: productIdParams, body: alertTypesBody }), async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const { types } = req.body;
+    if (!(await Product.exists({ _id: productId }))) throw new ApiError(404, 'Product not found.');
+
+    const user = await User.findOneAndUpdate(
+        { email: (req as any).decoded.email },
+        { $addToSet: { wishlist: productId } },
+        { new: true }
+    );
+    if (!user) throw new ApiError(404, 'User not found');
+
+    if (types.length === 0) {
+        await ProductAlert.deleteOne({ user: user._id, product: productId });
+        return res.status(200).json({ product: productId, types: [] });
     }
+    const alert = await ProductAlert.findOneAndUpdate(
+        { user: user._id, product: productId },
+        { $set: { types: [...new Set(types)] } },
+        { new: true, upsert: true }
+    );
+    res.status(200).json(alert);
+});
+
+app.get('/api/wishlist/alerts', verifyToken, async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    const alerts = await ProductAlert.find({ user: user._id }).populate('product', 'name slug images pricing stock');
+    res.status(200).json(alerts);
+});
+
+
+// ================== GUEST CART & WISHLIST API ROUTES ==================
+// লগইন ছাড়া কার্ট: টোকেন X-Cart-Token হেডারে; প্রথম যোগ করার সময় নতুন cartToken ফেরত আসে।
+// লগইন/সাইনআপের সময় একই হেডার পাঠালে কার্ট ও উইশলিস্ট ইউজারের সাথে মিশে যায়।
+app.get('/api/guest/cart', async (req: Request, res: Response) => {
+    const token = getCartToken(req);
+    const guestCart = await findGuestCart(token);
+    if (token && !guestCart) throw new ApiError(404, 'Guest cart not found or expired.');
+    res.status(200).json({ ...(await summarizeCart(guestCart?.cart || [])), expiresAt: guestCart?.expiresAt || null });
+});
+
+app.post('/api/guest/cart', validate({ body: cartUpdateBody }), async (req: Request, res: Response) => {
+    const { guestCart, token } = await findOrCreateGuestCart(getCartToken(req));
+    guestCart.set('cart', await applyCartUpdate(guestCart.cart, req.body));
+    await saveGuestCart(guestCart);
+    res.status(token ? 201 : 200).json({
+        ...(token ? { cartToken: token } : {}),
+        ...(await summarizeCart(guestCart.cart)),
+        expiresAt: guestCart.expiresAt,
+    });
+});
+
+app.post('/api/guest/cart/sync', async (req: Request, res: Response) => {
+    const guestCart = await findGuestCart(getCartToken(req));
+    if (!guestCart) throw new ApiError(404, 'Guest cart not found or expired.');
+
+    const before = await summarizeCart(guestCart.cart);
+    guestCart.set('cart', resolveCartIssues(before));
+    await saveGuestCart(guestCart);
+    res.status(200).json({ ...(await summarizeCart(guestCart.cart)), resolvedIssues: before.items.filter(line => line.issues.length > 0) });
+});
+
+app.delete('/api/guest/cart/:productId', validate({ params: productIdParams, query: cartLineQuery }), async (req: Request, res: Response) => {
+    const guestCart = await findGuestCart(getCartToken(req));
+    if (!guestCart) throw new ApiError(404, 'Guest cart not found or expired.');
+
+    const { variantId } = req.query;
+    guestCart.set('cart', await applyCartUpdate(guestCart.cart, { productId: req.params.productId, variantId, quantity: 0 }));
+    await saveGuestCart(guestCart);
+    res.status(200).json(await summarizeCart(guestCart.cart));
+});
+
+app.get('/api/guest/wishlist', async (req: Request, res: Response) => {
+    const token = getCartToken(req);
+    const guestCart = await findGuestCart(token);
+    if (token && !guestCart) throw new ApiError(404, 'Guest cart not found or expired.');
+    if (!guestCart) return res.status(200).json([]);
+    await guestCart.populate('wishlist');
+    res.status(200).json(guestCart.wishlist);
+});
+
+app.post('/api/guest/wishlist', validate({ body: wishlistBody }), async (req: Request, res: Response) => {
+    const { productId } = req.body;
+    if (!(await Product.exists({ _id: productId }))) throw new ApiError(404, 'Product not found.');
+
+    const { guestCart, token } = await findOrCreateGuestCart(getCartToken(req));
+    if (!guestCart.wishlist.some(id => String(id) === productId)) guestCart.wishlist.push(productId);
+    await saveGuestCart(guestCart);
+    await guestCart.populate('wishlist');
+    res.status(token ? 201 : 200).json({ ...(token ? { cartToken: token } : {}), wishlist: guestCart.wishlist });
 });
 
 
 // ================== CATEGORY API ROUTES ==================
 // ... আপনার বিদ্যমান /api/categories রুটগুলো এখানে থাকবে ...
 app.get('/api/categories', async (req: Request, res: Response) => {
-    try {
-        const categories = await Category.find({}).sort({ name: 1 });
-        res.status(200).json(categories);
-    } catch (error) {
-        res.status(500).json({ message: 'Server error fetching categories' });
-    }
+    const categories = await Category.find({}).sort({ name: 1 });
+    res.status(200).json(categories);
+});
+
+// ✅ Nested ক্যাটাগরি ট্রি, প্রতিটি নোডে প্রোডাক্ট সংখ্যা সহ
+app.get('/api/categories/tree', async (req: Request, res: Response) => {
+    const categories = await Category.find({}).sort({ name: 1 }).lean();
+    const counts = await Product.aggregate([{ $group: { _id: '$category', count: { $sum: 1 } } }]);
+    const productCounts = new Map<string, number>(counts.map(c => [String(c._id), c.count]));
+    res.status(200).json(buildCategoryTree(categories, productCounts));
 });
 
 // ২. ✅ আপডেট: নতুন ক্যাটাগরি তৈরি (Image সহ)
-app.post('/api/categories', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { name, isNav, image } = req.body; 
-        if (!name) return res.status(400).json({ message: 'Category name is required.' });
-        
-        const slug = name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-');
-        
-        const newCategory = new Category({ 
-            name, 
-            slug, 
-            isNav: isNav || false,
-            image: image || null // ইমেজ সেভ করা হচ্ছে
-        });
+app.post('/api/categories', verifyToken, verifyCatalogManager, validate({ body: categoryBody }), async (req: Request, res: Response) => {
+    const { name, isNav, image, parentId } = req.body; 
 
-        await newCategory.save();
-        res.status(201).json(newCategory);
-    } catch (error) {
-        console.error("Category Create Error:", error);
-        res.status(500).json({ message: 'Server error creating category.' });
-    }
+    const slug = name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-');
+
+    const newCategory = new Category({ 
+        name, 
+        slug, 
+        isNav: isNav || false,
+        image: image || null, // ইমেজ সেভ করা হচ্ছে
+        parentId: await validateCategoryParent(parentId), // সাব-ক্যাটাগরি হলে parent
+    });
+
+    await newCategory.save();
+    res.status(201).json(newCategory);
 });
 
 // ৩. ✅ [NEW] ক্যাটাগরি এডিট করার API (Name, Image, isNav সব আপডেট হবে)
-app.patch('/api/categories/:id', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const { name, image, isNav } = req.body;
+app.patch('/api/categories/:id', verifyToken, verifyCatalogManager, validate({ params: idParams, body: categoryUpdateBody }), async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { name, image, isNav, parentId } = req.body;
 
-        const updateData: any = {};
+    const updateData: any = {};
 
-        // নাম পরিবর্তন হলে স্লাগও আপডেট হবে
-        if (name) {
-            updateData.name = name;
-            updateData.slug = name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-');
-        }
-        
-        // ইমেজ বা isNav যদি আসে, তবে আপডেট হবে
-        if (image !== undefined) updateData.image = image;
-        if (isNav !== undefined) updateData.isNav = isNav;
-
-        const updatedCategory = await Category.findByIdAndUpdate(
-            id, 
-            updateData, 
-            { new: true } // আপডেটেড ডেটা ফেরত দেবে
-        );
-
-        if (!updatedCategory) return res.status(404).json({ message: 'Category not found.' });
-        
-        res.status(200).json(updatedCategory);
-    } catch (error) {
-        console.error("Category Edit Error:", error);
-        res.status(500).json({ message: 'Server error updating category.' });
+    // নাম পরিবর্তন হলে স্লাগও আপডেট হবে
+    if (name) {
+        updateData.name = name;
+        updateData.slug = name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-');
+    }
+
+    // ইমেজ বা isNav যদি আসে, তবে আপডেট হবে
+    if (image !== undefined) updateData.image = image;
+    if (isNav !== undefined) updateData.isNav = isNav;
+
+    // parent বদলালে cycle চেক (নিজের নিচে নিজেকে রাখা যাবে না)
+    if (parentId !== undefined) {
+        updateData.parentId = await validateCategoryParent(parentId, new mongoose.Types.ObjectId(id));
     }
+
+    const updatedCategory = await Category.findByIdAndUpdate(
+        id, 
+        updateData, 
+        { new: true } // আপডেটেড ডেটা ফেরত দেবে
+    );
+
+    if (!updatedCategory) throw new ApiError(404, 'Category not found.');
+
+    // নাম বদলালে প্রোডাক্টের সার্চ ফিল্ডেও নতুন নাম যাবে
+    if (name) await refreshProductSearchFields({ category: updatedCategory._id });
+
+    res.status(200).json(updatedCategory);
 });
 
 // ৪. শুধুমাত্র Navbar স্ট্যাটাস কুইক টগল করার জন্য (আগেরটা রাখলাম সুবিধার জন্য)
-app.patch('/api/categories/:id/nav-status', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const { isNav } = req.body;
-        const updatedCategory = await Category.findByIdAndUpdate(id, { isNav }, { new: true });
-        res.status(200).json(updatedCategory);
-    } catch (error) {
-        res.status(500).json({ message: 'Server error' });
-    }
+app.patch('/api/categories/:id/nav-status', verifyToken, verifyCatalogManager, validate({ params: idParams, body: navStatusBody }), async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { isNav } = req.body;
+    const updatedCategory = await Category.findByIdAndUpdate(id, { isNav }, { new: true });
+    res.status(200).json(updatedCategory);
+});
+
+// ✅ ক্যাটাগরির ছবি আপলোড (multipart, ফিল্ড: image) - পুরনো আপলোড করা ছবি মুছে যাবে
+app.post('/api/categories/:id/image', verifyToken, verifyCatalogManager, uploadImage('image'), validate({ params: idParams }), async (req: Request, res: Response) => {
+    if (!req.file) throw new ApiError(400, 'No image uploaded.');
+    const category = await Category.findById(req.params.id);
+    if (!category) throw new ApiError(404, 'Category not found.');
+
+    const stored = await storeImage(req.file, 'categories');
+    const previousImage = category.image;
+    category.image = stored.url;
+    await category.save();
+    await deleteImages([previousImage]);
+
+    res.status(200).json({ category, uploaded: stored });
 });
 
 // ৫. ক্যাটাগরি ডিলিট
-app.delete('/api/categories/:id', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const deletedCategory = await Category.findByIdAndDelete(id);
-        if (!deletedCategory) return res.status(404).json({ message: 'Category not found.' });
-        res.status(200).json({ message: 'Category deleted successfully.' });
-    } catch (error) {
-        res.status(500).json({ message: 'Server error deleting category.' });
+// সাব-ক্যাটাগরি বা প্রোডাক্ট থাকলে ডিলিট হবে না; ?cascade=true দিলে পুরো সাব-ট্রি আর তার প্রোডাক্টসহ মুছে যাবে
+app.delete('/api/categories/:id', verifyToken, verifyCatalogManager, validate({ params: idParams, query: categoryDeleteQuery }), async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const category = await Category.findById(id);
+    if (!category) throw new ApiError(404, 'Category not found.');
+
+    const categoryIds = await getCategoryWithDescendantIds(category._id as mongoose.Types.ObjectId);
+    const childCount = categoryIds.length - 1;
+    const productCount = await Product.countDocuments({ category: { $in: categoryIds } });
+
+    if ((childCount > 0 || productCount > 0) && !validatedQuery(req, categoryDeleteQuery).cascade) {
+        throw new ApiError(409, 'Category has subcategories or products. Move them first or delete with cascade=true.', {
+            code: 'CATEGORY_NOT_EMPTY',
+            details: { childCount, productCount },
+        });
     }
+
+    const products = await Product.find({ category: { $in: categoryIds } }).select('images');
+    const categories = await Category.find({ _id: { $in: categoryIds } }).select('image');
+    await Product.deleteMany({ category: { $in: categoryIds } });
+    await Category.deleteMany({ _id: { $in: categoryIds } });
+    await deleteImages([...products.flatMap(p => p.images), ...categories.map(c => c.image)]);
+    res.status(200).json({ message: 'Category deleted successfully.', deletedCategories: categoryIds.length, deletedProducts: productCount });
 });
 
 
 // ✅ [NEW API] Slug দিয়ে ক্যাটাগরি অনুযায়ী প্রোডাক্ট আনা
-app.get('/api/products/category-by-slug/:slug', async (req: Request, res: Response) => {
-    try {
-        const { slug } = req.params;
-        
-        // ১. প্রথমে স্লাগ দিয়ে ক্যাটাগরি খুঁজে বের করা
-        const category = await Category.findOne({ slug });
-        
-        if (!category) {
-            return res.status(404).json({ message: 'Category not found' });
-        }
+app.get('/api/products/category-by-slug/:slug', validate({ params: slugParams }), async (req: Request, res: Response) => {
+    const { slug } = req.params;
 
-        // ২. সেই ক্যাটাগরি আইডি দিয়ে প্রোডাক্ট খুঁজে বের করা
-        const products = await Product.find({ category: category._id })
-            .populate('category', 'name slug')
-            .sort({ createdAt: -1 });
-
-        // ৩. ক্যাটাগরির নাম এবং প্রোডাক্টগুলো পাঠানো
-        res.status(200).json({
-            categoryName: category.name,
-            products: products
-        });
+    // ১. প্রথমে স্লাগ দিয়ে ক্যাটাগরি খুঁজে বের করা
+    const category = await Category.findOne({ slug });
 
-    } catch (error) {
-        console.error("Error fetching category products:", error);
-        res.status(500).json({ message: 'Server error fetching products.' });
+    if (!category) {
+        throw new ApiError(404, 'Category not found');
     }
+
+    // ২. সেই ক্যাটাগরি আর সব সাব-ক্যাটাগরির প্রোডাক্ট খুঁজে বের করা
+    const categoryIds = await getCategoryWithDescendantIds(category._id as mongoose.Types.ObjectId);
+    const products = await Product.find({ category: { $in: categoryIds } })
+        .populate('category', 'name slug')
+        .sort({ createdAt: -1 });
+
+    // ৩. ক্যাটাগরির নাম, ব্রেডক্রাম্ব এবং প্রোডাক্টগুলো পাঠানো
+    res.status(200).json({
+        categoryName: category.name,
+        breadcrumbs: await getCategoryBreadcrumbs(category),
+        subcategories: await Category.find({ parentId: category._id }).select('name slug image').sort({ name: 1 }),
+        products: products
+    });
 });
 
 
 // ================== PRODUCT API ROUTES ==================
 // ... আপনার বিদ্যমান /api/products রুটগুলো এখানে থাকবে ...
 // ================== PRODUCT API ROUTES ==================
-app.get('/api/products', async (req: Request, res: Response) => {
-  try {
-    const { search } = req.query;
-    let query: any = {};
-
-    // ✅ সার্চ লজিক: যদি search কুয়েরি থাকে, তবে নামের মধ্যে খুঁজবে (Case Insensitive)
-    if (search) {
-        query.name = { $regex: search, $options: 'i' };
+// ✅ পেজিনেশন, সর্টিং আর ফিল্টার সহ প্রোডাক্ট লিস্ট
+// query: search, category (id বা slug, সাব-ক্যাটাগরি সহ), brand (কমা দিয়ে একাধিক), minPrice, maxPrice,
+//        inStock=true, status=true|false, sort=relevance|newest|price_asc|price_desc|discount|rating, page, limit
+app.get('/api/products', validate({ query: productListQuery }), async (req: Request, res: Response) => {
+    const { search, category, brand, minPrice: min, maxPrice: max, inStock, status, sort: sortOption, page: pageNumber, limit } = validatedQuery(req, productListQuery);
+    const baseMatch: any = {};
+
+    // ✅ সার্চ: নাম, ব্র্যান্ড, ক্যাটাগরি আর বিবরণে full-text + টাইপো-সহনশীল n-gram মিল
+    const searchText = search?.trim() || '';
+    if (inStock) baseMatch.stock = { $gt: 0 };
+    if (status !== undefined) baseMatch.status = status;
+
+    // ডিফল্ট সার্চ থাকলে relevance, নাহলে newest
+    const sort = sortOption ?? (searchText ? 'relevance' : 'newest');
+    if (sort === 'relevance' && !searchText) throw new ApiError(400, 'Invalid sort option.');
+    const limitNumber = limit ?? DEFAULT_PAGE_LIMIT;
+
+    let categoryIds;
+    if (category) {
+        const categoryDoc = await findCategoryByIdOrSlug(category);
+        if (!categoryDoc) throw new ApiError(404, 'Category not found');
+        categoryIds = await getCategoryWithDescendantIds(categoryDoc._id as mongoose.Types.ObjectId);
     }
 
-    const products = await Product.find(query)
-        .populate('category', 'name')
-        .sort({ createdAt: -1 });
+    const brands = brand ? brand.split(',').map(b => b.trim()).filter(Boolean) : undefined;
+
+    const [result] = await Product.aggregate(buildProductListPipeline({
+        baseMatch,
+        search: searchText || undefined,
+        categoryIds,
+        brands,
+        minPrice: min,
+        maxPrice: max,
+        sort,
+        page: pageNumber,
+        limit: limitNumber,
+    }));
+
+    const total = result.total[0]?.count || 0;
+    res.status(200).json({
+        products: result.products,
+        pagination: { page: pageNumber, limit: limitNumber, total, totalPages: Math.ceil(total / limitNumber) },
+        facets: {
+            brands: result.brands,
+            categories: result.categories,
+            priceBuckets: formatPriceBuckets(result.priceBuckets),
+        },
+    });
+});
 
-    res.status(200).json(products);
-  } catch (error) {
-    res.status(500).json({ message: 'Failed to fetch products' });
-  }
+// ✅ টাইপঅ্যাহেড সাজেশন: শুধু active প্রোডাক্ট, হালকা রেসপন্স
+app.get('/api/products/suggest', validate({ query: suggestQuery }), async (req: Request, res: Response) => {
+    const { q: rawQuery, limit } = validatedQuery(req, suggestQuery);
+    const q = rawQuery?.trim() || '';
+    if (q.length < 2) return res.status(200).json([]);
+
+    const { match, scoring } = buildSearchStages(q);
+    const suggestions = await Product.aggregate([
+        { $match: { ...match, status: true } },
+        ...scoring,
+        { $sort: { relevance: -1, name: 1 } },
+        { $limit: limit },
+        { $project: { name: 1, slug: 1, brand: 1, categoryName: 1, image: { $first: '$images' }, pricing: 1 } },
+    ]);
+    res.status(200).json(suggestions);
 });
 
 app.get('/api/products/deals', async (req: Request, res: Response) => {
-    try {
-        const deals = await Product.find({
-            'pricing.discount': { $exists: true, $ne: null },
-            $expr: { $lt: ["$pricing.discount", "$pricing.regular"] }
-        }).populate('category', 'name').sort({ createdAt: -1 }).limit(10);
-        res.status(200).json(deals);
-    } catch (error) {
-        res.status(500).json({ message: 'Failed to fetch deals' });
-    }
+    const deals = await Product.find({
+        'pricing.discount': { $exists: true, $ne: null },
+        $expr: { $lt: ["$pricing.discount", "$pricing.regular"] }
+    }).populate('category', 'name').sort({ createdAt: -1 }).limit(10);
+    res.status(200).json(deals);
 });
 
-app.get('/api/products/:slug', async (req: Request, res: Response) => {
-    try {
-        const product = await Product.findOne({ slug: req.params.slug }).populate('category', 'name');
-        if (!product) return res.status(404).json({ message: 'Product not found' });
-        res.status(200).json(product);
-    } catch (error) {
-        res.status(500).json({ message: 'Failed to fetch product' });
+// ✅ বাল্ক এক্সপোর্ট (?format=csv|xlsx, ?category=slug, ?status=true|false) - এডিট করে আবার ইমপোর্ট করা যায়
+// (/:slug রুটের আগে থাকতে হবে)
+app.get('/api/products/export', verifyToken, verifyCatalogManager, validate({ query: productExportQuery }), async (req: Request, res: Response) => {
+    const query = validatedQuery(req, productExportQuery);
+    const { format } = query;
+    const filter: Record<string, unknown> = {};
+    if (query.category) {
+        const category = await Category.findOne({ slug: query.category });
+        if (!category) throw new ApiError(404, 'Category not found.');
+        filter.category = { $in: await getCategoryWithDescendantIds(category._id as mongoose.Types.ObjectId) };
     }
+    if (query.status !== undefined) filter.status = query.status;
+
+    const file = await exportProducts(filter, format);
+    res.setHeader('Content-Type', format === 'csv'
+        ? 'text/csv; charset=utf-8'
+        : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="products-${new Date().toISOString().slice(0, 10)}.${format}"`);
+    res.status(200).send(file);
 });
 
-app.get('/api/products/category/:categoryId', async (req: Request, res: Response) => {
-    try {
-        const { categoryId } = req.params;
-        const { exclude, limit = '4' } = req.query;
-        const query: any = { category: categoryId };
-        if (exclude) {
-            query._id = { $ne: exclude };
-        }
-        const relatedProducts = await Product.find(query).limit(parseInt(limit as string));
-        res.status(200).json(relatedProducts);
-    } catch (error) {
-        res.status(500).json({ message: 'Failed to fetch related products' });
-    }
+app.get('/api/products/:slug', validate({ params: slugParams }), async (req: Request, res: Response) => {
+    const product = await Product.findOne({ slug: req.params.slug }).populate('category', 'name');
+    if (!product) throw new ApiError(404, 'Product not found');
+    res.status(200).json(product);
 });
 
-app.post('/api/products', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const productData: IProduct = req.body;
-        if (!productData.name) return res.status(400).json({ message: 'Product name is required.' });
-        const slug = `${productData.name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-')}-${Date.now()}`;
-        const newProduct = new Product({ ...productData, slug });
-        await newProduct.save();
-        res.status(201).json(newProduct);
-    } catch (error) {
-        res.status(500).json({ message: 'Failed to create product.' });
+app.get('/api/products/category/:categoryId', validate({ params: categoryIdParams, query: relatedProductsQuery }), async (req: Request, res: Response) => {
+    const { categoryId } = req.params;
+    const { exclude, limit } = validatedQuery(req, relatedProductsQuery);
+    const query: any = { category: categoryId };
+    if (exclude) {
+        query._id = { $ne: exclude };
     }
+    const relatedProducts = await Product.find(query).limit(limit);
+    res.status(200).json(relatedProducts);
 });
 
-app.delete('/api/products/:id', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const deletedProduct = await Product.findByIdAndDelete(id);
-        if (!deletedProduct) return res.status(404).json({ message: 'Product not found.' });
-        res.status(200).json({ message: 'Product deleted successfully.' });
-    } catch (error) {
-        res.status(500).json({ message: 'Server error deleting product.' });
-    }
+app.post('/api/products', verifyToken, verifyCatalogManager, validate({ body: productBody }), async (req: Request, res: Response) => {
+    const productData: IProduct = req.body;
+    const slug = `${productData.name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-')}-${Date.now()}`;
+    const newProduct = new Product({ ...productData, slug });
+    await newProduct.save();
+    res.status(201).json(newProduct);
 });
 
-app.patch('/api/products/status/:id', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const { status } = req.body;
-        if (typeof status !== 'boolean') return res.status(400).json({ message: 'Invalid status value.' });
-        const updatedProduct = await Product.findByIdAndUpdate(id, { status }, { new: true });
-        if (!updatedProduct) return res.status(404).json({ message: 'Product not found.' });
-        res.status(200).json(updatedProduct);
-    } catch (error) {
-        res.status(500).json({ message: 'Server error updating status.' });
-    }
+app.delete('/api/products/:id', verifyToken, verifyCatalogManager, validate({ params: idParams }), async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const deletedProduct = await Product.findByIdAndDelete(id);
+    if (!deletedProduct) throw new ApiError(404, 'Product not found.');
+    const reviews = await Review.find({ product: deletedProduct._id }).select('images');
+    await Review.deleteMany({ product: deletedProduct._id });
+    await deleteImages([...deletedProduct.images, ...reviews.flatMap(review => review.images)]);
+    res.status(200).json({ message: 'Product deleted successfully.' });
+});
+
+app.patch('/api/products/status/:id', verifyToken, verifyCatalogManager, validate({ params: idParams, body: productStatusBody }), async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { status } = req.body;
+    const updatedProduct = await Product.findByIdAndUpdate(id, { status }, { new: true });
+    if (!updatedProduct) throw new ApiError(404, 'Product not found.');
+    res.status(200).json(updatedProduct);
 });
 
 // ✅ [NEW API] প্রোডাক্ট আপডেট করার রুট
-app.patch('/api/products/:id', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const { id } = req.params;
-        const updates = req.body;
+app.patch('/api/products/:id', verifyToken, verifyCatalogManager, validate({ params: idParams, body: productUpdateBody }), async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const updates = req.body;
 
-        // যদি নাম পরিবর্তন হয়, তবে স্লাগও আপডেট হবে
-        if (updates.name) {
-            updates.slug = `${updates.name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-')}-${Date.now()}`;
-        }
+    // যদি নাম পরিবর্তন হয়, তবে স্লাগও আপডেট হবে
+    if (updates.name) {
+        updates.slug = `${updates.name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-')}-${Date.now()}`;
+    }
 
-        const updatedProduct = await Product.findByIdAndUpdate(id, updates, { new: true });
+    // images লিস্ট বদলালে যে ছবিগুলো বাদ পড়েছে সেগুলো স্টোরেজ থেকেও মুছে যাবে;
+    // আগের স্টক/দাম দিয়ে back-in-stock বা ডিসকাউন্ট অ্যালার্ট ঠিক করা হয়
+    const previous = await Product.findById(id).select('images stock pricing');
+    if (!previous) throw new ApiError(404, 'Product not found');
 
-        if (!updatedProduct) {
-            return res.status(404).json({ message: 'Product not found' });
-        }
+    const updatedProduct = await Product.findByIdAndUpdate(id, updates, { new: true, runValidators: true });
 
-        res.status(200).json(updatedProduct);
-    } catch (error) {
-        console.error("Update Product Error:", error);
-        res.status(500).json({ message: 'Server error updating product' });
+    if (!updatedProduct) {
+        throw new ApiError(404, 'Product not found');
     }
+    if (Array.isArray(updates.images)) await deleteImages(previous.images.filter(url => !updatedProduct.images.includes(url)));
+    await notifyProductChange(previous, updatedProduct);
+
+    res.status(200).json(updatedProduct);
 });
 
 
-// ================== ORDER API ROUTES ==================
-app.get('/api/orders', verifyToken, async (req: Request, res: Response) => {
+// ✅ বাল্ক ইমপোর্ট (multipart, ফিল্ড: file, CSV/XLSX) - SKU বা slug দিয়ে upsert
+// ?dryRun=true দিলে কিছু সেভ হয় না, শুধু প্রতিটি লাইনের রিপোর্ট; কোনো লাইনে এরর থাকলে আসল ইমপোর্টও হয় না
+app.post('/api/products/import', verifyToken, verifyCatalogManager, uploadSpreadsheet('file'), validate({ query: productImportQuery }), async (req: Request, res: Response) => {
+    if (!req.file) throw new ApiError(400, 'No file uploaded.');
+    const dryRun = validatedQuery(req, productImportQuery).dryRun || req.body.dryRun === 'true';
+    const rows = await readSpreadsheet(req.file);
+    const report = await importProducts(rows, { dryRun });
+    res.status(!dryRun && !report.applied ? 422 : 200).json(report);
+});
+
+// ✅ প্রোডাক্টের ছবি আপলোড (multipart, ফিল্ড: images, সর্বোচ্চ ৮টি) - ছবিগুলো images এর শেষে যোগ হবে
+app.post('/api/products/:id/images', verifyToken, verifyCatalogManager, uploadImages('images'), validate({ params: idParams }), async (req: Request, res: Response) => {
+    const files = (req.files as Express.Multer.File[]) || [];
+    if (files.length === 0) throw new ApiError(400, 'No images uploaded.');
+    const product = await Product.findById(req.params.id);
+    if (!product) throw new ApiError(404, 'Product not found.');
+
+    const stored = await storeImages(files, `products/${product._id}`);
+    const updatedProduct = await Product.findByIdAndUpdate(
+        product._id,
+        { $push: { images: { $each: stored.map(image => image.url) } } },
+        { new: true }
+    );
+    res.status(201).json({ product: updatedProduct, uploaded: stored });
+});
+
+// প্রোডাক্ট থেকে একটি ছবি সরানো (body: { url })
+app.delete('/api/products/:id/images', verifyToken, verifyCatalogManager, validate({ params: idParams, body: imageUrlBody }), async (req: Request, res: Response) => {
+    const { url } = req.body;
+    const updatedProduct = await Product.findOneAndUpdate(
+        { _id: req.params.id, images: url },
+        { $pull: { images: url } },
+        { new: true }
+    );
+    if (!updatedProduct) throw new ApiError(404, 'Product or image not found.');
+    await deleteImages([url]);
+    res.status(200).json(updatedProduct);
+});
+
+
+// ================== REVIEW API ROUTES ==================
+// ✅ প্রোডাক্টের রিভিউ (পাবলিক, লুকানোগুলো বাদে)
+app.get('/api/products/:productId/reviews', validate({ params: productIdParams, query: reviewListQuery }), async (req: Request, res: Response) => {
+    const { page, limit } = validatedQuery(req, reviewListQuery);
+    const query = { product: req.params.productId, isHidden: false };
+
+    const [reviews, total] = await Promise.all([
+        Review.find(query)
+            .populate('user', 'name image')
+            .select('-order -moderatedBy -hiddenReason')
+            .sort({ createdAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+        Review.countDocuments(query),
+    ]);
+    res.status(200).json({ reviews, pagination: { page, limit, total, totalPages: Math.ceil(total / limit) } });
+});
+
+// ✅ রিভিউ দেওয়া (multipart: rating, comment, images) - শুধু যারা কিনে ডেলিভারি পেয়েছে
+app.post('/api/products/:productId/reviews', verifyToken, uploadImages('images'), validate({ params: productIdParams, body: reviewBody }), async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const { rating, comment } = req.body;
+
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    const product = await Product.findById(productId);
+    if (!product) throw new ApiError(404, 'Product not found.');
+
+    const order = await findDeliveredOrderWithProduct(user._id, product._id);
+    if (!order) throw new ApiError(403, 'You can only review products you have received.');
+    if (await Review.exists({ product: product._id, user: user._id })) {
+        throw new ApiError(409, 'You have already reviewed this product.');
+    }
+
+    const files = (req.files as Express.Multer.File[]) || [];
+    const images = await storeImages(files, `reviews/${product._id}`);
+    const review = new Review({
+        product: product._id,
+        user: user._id,
+        order: order._id,
+        rating,
+        comment,
+        images: images.map(image => image.url),
+        isVerifiedPurchase: true,
+    });
     try {
-        const orders = await Order.find({}).populate('user', 'name email').populate('items.product', 'name').sort({ createdAt: -1 });
-        res.status(200).json(orders);
+        await review.save();
     } catch (error) {
-        res.status(500).json({ message: 'Server error fetching orders.' });
+        await deleteImages(review.images);
+        throw error;
     }
+
+    await refreshProductRating(product._id);
+    res.status(201).json(review);
 });
 
-// ✅ নতুন রুট: নতুন অর্ডার তৈরি করা
-app.post('/api/orders', verifyToken, async (req: Request, res: Response) => {
-    try {
-        const userEmail = (req as any).decoded.email;
-        const shippingAddress = req.body.shippingAddress; // ফ্রন্টএন্ড থেকে শিপিং অ্যাড্রেস
+// নিজের রিভিউ এডিট (rating, comment)
+app.patch('/api/reviews/:id', verifyToken, validate({ params: idParams, body: reviewUpdateBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    const review = await Review.findById(req.params.id);
+    if (!review || String(review.user) !== String(user._id)) throw new ApiError(404, 'Review not found.');
 
-        // ১. ইউজার এবং তার কার্ট (প্রোডাক্ট সহ) খুঁজে বের করুন
-        const user = await User.findOne({ email: userEmail }).populate('cart.product');
-        if (!user || !user.cart || user.cart.length === 0) {
-            return res.status(400).json({ message: 'Cart is empty.' });
-        }
+    if (req.body.rating !== undefined) review.rating = req.body.rating;
+    if (req.body.comment !== undefined) review.comment = req.body.comment;
+    await review.save();
 
-        let totalAmount = 0;
-        const orderItems: IOrderItem[] = [];
-
-        // ২. কার্ট আইটেম থেকে অর্ডার আইটেম তৈরি করুন এবং মোট মূল্য গণনা করুন
-        for (const cartItem of user.cart) {
-            // নিশ্চিত করুন যে প্রোডাক্ট পপুলেট হয়েছে এবং এটি একটি অবজেক্ট
-            if (cartItem.product && typeof cartItem.product === 'object') {
-                const product = cartItem.product as any; // টাইপ ঠিক করার জন্য
-                
-                // মূল্য গণনা (ডিসকাউন্ট থাকলে সেটা, না থাকলে রেগুলার)
-                const price = product.pricing.discount || product.pricing.regular;
-                
-                orderItems.push({
-                    product: product._id,
-                    quantity: cartItem.quantity,
-                    price: price, // অর্ডার করার সময়কার মূল্য
-                });
-                
-                totalAmount += price * cartItem.quantity;
-            }
-        }
+    await refreshProductRating(review.product);
+    res.status(200).json(review);
+});
 
-        // ৩. নতুন অর্ডার অবজেক্ট তৈরি করুন
-        const newOrder = new Order({
-            user: user._id,
-            items: orderItems,
-            totalAmount: totalAmount,
-            shippingAddress: shippingAddress,
-            paymentStatus: 'pending', // COD-এর জন্য 'pending'
-            orderStatus: 'pending',   // নতুন অর্ডারের ডিফল্ট স্ট্যাটাস
+// রিভিউ ডিলিট (নিজের, অথবা অ্যাডমিন/ক্যাটালগ ম্যানেজার)
+app.delete('/api/reviews/:id', verifyToken, validate({ params: idParams }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    const review = await Review.findById(req.params.id);
+    if (!review) throw new ApiError(404, 'Review not found.');
+
+    const isModerator = user.role === 'admin' || user.role === 'catalog-manager';
+    if (!isModerator && String(review.user) !== String(user._id)) throw new ApiError(404, 'Review not found.');
+
+    await review.deleteOne();
+    await deleteImages(review.images);
+    await refreshProductRating(review.product);
+    res.status(200).json({ message: 'Review deleted successfully.' });
+});
+
+// ✅ অ্যাডমিন: সব রিভিউ (?hidden=true|false, ?productId=)
+app.get('/api/reviews', verifyToken, verifyCatalogManager, validate({ query: adminReviewQuery }), async (req: Request, res: Response) => {
+    const { hidden, productId } = validatedQuery(req, adminReviewQuery);
+    const query: any = {};
+    if (hidden !== undefined) query.isHidden = hidden;
+    if (productId) query.product = productId;
+    const reviews = await Review.find(query)
+        .populate('user', 'name email')
+        .populate('product', 'name slug')
+        .sort({ createdAt: -1 })
+        .limit(200);
+    res.status(200).json(reviews);
+});
+
+// ✅ অ্যাডমিন: আপত্তিকর রিভিউ লুকানো/আবার দেখানো (body: { isHidden, reason? })
+app.patch('/api/reviews/:id/moderation', verifyToken, verifyCatalogManager, validate({ params: idParams, body: moderationBody }), async (req: Request, res: Response) => {
+    const { isHidden, reason } = req.body;
+
+    const review = await Review.findByIdAndUpdate(
+        req.params.id,
+        { isHidden, hiddenReason: isHidden ? reason : undefined, moderatedBy: (req as any).user._id },
+        { new: true }
+    );
+    if (!review) throw new ApiError(404, 'Review not found.');
+
+    await refreshProductRating(review.product);
+    res.status(200).json(review);
+});
+
+
+// ================== COUPON API ROUTES ==================
+
+app.get('/api/coupons', verifyToken, verifyCatalogManager, async (req: Request, res: Response) => {
+    const coupons = await Coupon.find({}).sort({ createdAt: -1 });
+    res.status(200).json(coupons);
+});
+
+app.post('/api/coupons', verifyToken, verifyCatalogManager, validate({ body: couponBody }), async (req: Request, res: Response) => {
+    const newCoupon = new Coupon(req.body);
+    await newCoupon.save();
+    res.status(201).json(newCoupon);
+});
+
+app.patch('/api/coupons/:id', verifyToken, verifyCatalogManager, validate({ params: idParams, body: couponUpdateBody }), async (req: Request, res: Response) => {
+    const coupon = await Coupon.findById(req.params.id);
+    if (!coupon) throw new ApiError(404, 'Coupon not found.');
+    coupon.set(req.body);
+    await coupon.save();
+    res.status(200).json(coupon);
+});
+
+app.delete('/api/coupons/:id', verifyToken, verifyCatalogManager, validate({ params: idParams }), async (req: Request, res: Response) => {
+    const deletedCoupon = await Coupon.findByIdAndDelete(req.params.id);
+    if (!deletedCoupon) throw new ApiError(404, 'Coupon not found.');
+    res.status(200).json({ message: 'Coupon deleted successfully.' });
+});
+
+
+// ================== CHECKOUT & DELIVERY API ROUTES ==================
+// ✅ অর্ডার দেওয়ার আগে পুরো হিসাব (body: { addressId | shippingAddress, couponCode? })
+app.post('/api/checkout/quote', verifyToken, validate({ body: checkoutBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email }).populate('cart.product');
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const lines = buildPricedLines(user.cart);
+    if (lines.length === 0) throw new ApiError(400, 'Cart is empty.');
+
+    const coupon = req.body.couponCode ? (await evaluateCoupon(req.body.couponCode, lines, user._id)).breakdown : null;
+    const totals = await calculateCheckoutTotals(lines, resolveShippingAddress(user, req.body), coupon);
+    res.status(200).json({ ...totals, coupon });
+});
+
+// পাবলিক: চেকআউট পেজে জোনের লিস্ট দেখানোর জন্য
+app.get('/api/delivery-zones', async (req: Request, res: Response) => {
+    const zones = await DeliveryZone.find({ isActive: true }).sort({ baseFee: 1 });
+    res.status(200).json(zones);
+});
+
+app.post('/api/delivery-zones', verifyToken, verifyAdmin, validate({ body: deliveryZoneBody }), async (req: Request, res: Response) => {
+    const newZone = new DeliveryZone(req.body);
+    await newZone.save();
+    res.status(201).json(newZone);
+});
+
+app.patch('/api/delivery-zones/:id', verifyToken, verifyAdmin, validate({ params: idParams, body: deliveryZoneUpdateBody }), async (req: Request, res: Response) => {
+    const zone = await DeliveryZone.findById(req.params.id);
+    if (!zone) throw new ApiError(404, 'Delivery zone not found.');
+    zone.set(req.body);
+    await zone.save();
+    res.status(200).json(zone);
+});
+
+app.delete('/api/delivery-zones/:id', verifyToken, verifyAdmin, validate({ params: idParams }), async (req: Request, res: Response) => {
+    const deletedZone = await DeliveryZone.findByIdAndDelete(req.params.id);
+    if (!deletedZone) throw new ApiError(404, 'Delivery zone not found.');
+    res.status(200).json({ message: 'Delivery zone deleted successfully.' });
+});
+
+app.get('/api/tax-rules', verifyToken, verifyAdmin, async (req: Request, res: Response) => {
+    const rules = await TaxRule.find({}).sort({ createdAt: -1 });
+    res.status(200).json(rules);
+});
+
+app.post('/api/tax-rules', verifyToken, verifyAdmin, validate({ body: taxRuleBody }), async (req: Request, res: Response) => {
+    const newRule = new TaxRule(req.body);
+    await newRule.save();
+    res.status(201).json(newRule);
+});
+
+app.patch('/api/tax-rules/:id', verifyToken, verifyAdmin, validate({ params: idParams, body: taxRuleUpdateBody }), async (req: Request, res: Response) => {
+    const rule = await TaxRule.findById(req.params.id);
+    if (!rule) throw new ApiError(404, 'Tax rule not found.');
+    rule.set(req.body);
+    await rule.save();
+    res.status(200).json(rule);
+});
+
+app.delete('/api/tax-rules/:id', verifyToken, verifyAdmin, validate({ params: idParams }), async (req: Request, res: Response) => {
+    const deletedRule = await TaxRule.findByIdAndDelete(req.params.id);
+    if (!deletedRule) throw new ApiError(404, 'Tax rule not found.');
+    res.status(200).json({ message: 'Tax rule deleted successfully.' });
+});
+
+
+// ================== ORDER API ROUTES ==================
+app.get('/api/orders', verifyToken, verifyOrderManager, async (req: Request, res: Response) => {
+    const orders = await Order.find({}).populate('user', 'name email').populate('items.product', 'name').sort({ createdAt: -1 });
+    res.status(200).json(orders);
+});
+
+// ✅ নতুন রুট: নতুন অর্ডার তৈরি করা
+app.post('/api/orders', verifyToken, rateLimit('orders'), validate({ body: checkoutBody }), async (req: Request, res: Response) => {
+    const userEmail = (req as any).decoded.email;
+
+    // ১. ইউজার এবং তার কার্ট (প্রোডাক্ট সহ) খুঁজে বের করুন
+    const user = await User.findOne({ email: userEmail }).populate('cart.product');
+    if (!user || !user.cart || user.cart.length === 0) {
+        throw new ApiError(400, 'Cart is empty.');
+    }
+
+    // অল্প সময়ে অনেক অর্ডার বা অনেকগুলো অপেক্ষমাণ COD অর্ডার থাকলে 429
+    await assertOrderVelocity(user._id, req.body.paymentMethod || 'cod');
+
+    // শিপিং অ্যাড্রেস: ঠিকানা বইয়ের addressId, নাহলে ফ্রন্টএন্ড থেকে পাঠানো shippingAddress, নাহলে ডিফল্ট ঠিকানা
+    const shippingAddress = resolveShippingAddress(user, req.body);
+
+    // ২. কার্ট আইটেম থেকে অর্ডার আইটেম তৈরি করুন (ভ্যারিয়েন্ট থাকলে তার দাম, অর্ডার করার সময়কার মূল্য)
+    const pricedLines = buildPricedLines(user.cart);
+    const orderItems: IOrderItem[] = pricedLines.map(line => ({
+        product: line.product as IOrderItem['product'],
+        variant: (line.variant || null) as IOrderItem['variant'],
+        variantLabel: line.variantLabel,
+        sku: line.sku,
+        quantity: line.quantity,
+        price: line.price,
+    }));
+
+    // ৩. স্টক চেক করে কমানো (কোনো লাইনে ঘাটতি থাকলে পুরো অর্ডার বাতিল)
+    // দাম বদলানো, স্টক-আউট বা মুছে যাওয়া লাইন থাকলে ইউজারকে আগে কার্ট রিভিউ করতে হবে
+    const cartSummary = await summarizeCart(user.cart);
+    if (cartSummary.hasIssues || orderItems.length === 0) {
+        throw new ApiError(409, 'Your cart has changed. Please review it before placing the order.', {
+            code: 'CART_CHANGED',
+            details: { cart: cartSummary },
         });
+    }
 
-        // ৪. অর্ডার সেভ করুন
-        await newOrder.save();
+    // কুপন থাকলে আগে যাচাই (এখনো redeem হয়নি)
+    const couponResult = req.body.couponCode ? await evaluateCoupon(req.body.couponCode, pricedLines, user._id) : undefined;
 
-        // ৫. ইউজার-এর কার্ট খালি করুন
-        user.cart = [];
-        await user.save();
+    // সাবটোটাল, ডেলিভারি চার্জ, ভ্যাট - কোটের মতো একই হিসাব
+    const totals = await calculateCheckoutTotals(pricedLines, shippingAddress, couponResult?.breakdown);
 
-        // ৬. সফল রেসপন্স পাঠান
-        res.status(201).json({ message: 'Order placed successfully!', order: newOrder });
+    const stockErrors = await reserveStock(orderItems);
+    if (stockErrors.length > 0) {
+        throw new ApiError(409, 'Some items in your cart are unavailable.', { code: 'OUT_OF_STOCK', details: { errors: stockErrors } });
+    }
 
-    } catch (error) {
-        console.error("Order Creation Error:", error);
-        res.status(500).json({ message: 'Failed to create order.' });
+    // কুপন redeem (লিমিট শেষ হয়ে গেলে রিজার্ভ করা স্টক ফেরত)
+    if (couponResult) {
+        try {
+            await redeemCoupon(couponResult.coupon, user._id);
+        } catch (error) {
+            await releaseStock(orderItems);
+            throw error;
+        }
     }
-});
 
+    // পেমেন্ট মেথড (ডিফল্ট ক্যাশ অন ডেলিভারি)
+    const paymentMethod = req.body.paymentMethod || 'cod';
+    if (!getPaymentProvider(paymentMethod)) {
+        await releaseStock(orderItems);
+        if (couponResult) await releaseCoupon(couponResult.coupon._id, user._id);
+        throw new ApiError(400, 'Unsupported payment method.');
+    }
+
+    // ৪. নতুন অর্ডার অবজেক্ট তৈরি করুন
+    const newOrder = new Order({
+        user: user._id,
+        items: orderItems,
+        subtotal: totals.subtotal,
+        discount: totals.discount,
+        coupon: couponResult?.breakdown || null,
+        shippingFee: totals.shippingFee,
+        tax: totals.tax,
+        grandTotal: totals.grandTotal,
+        deliveryZone: totals.deliveryZone?.name,
+        totalAmount: totals.grandTotal,
+        shippingAddress: shippingAddress,
+        paymentMethod,
+        paymentStatus: 'pending', // COD-এর জন্য 'pending'
+        orderStatus: 'pending',   // নতুন অর্ডারের ডিফল্ট স্ট্যাটাস
+        statusHistory: [{ status: 'pending', changedBy: user._id, changedAt: new Date() }],
+    });
 
-app.patch('/api/orders/:id/status', verifyToken, async (req: Request, res: Response) => {
+    // ৫. অর্ডার সেভ করুন (ব্যর্থ হলে রিজার্ভ করা স্টক ফেরত)
     try {
-        const { id } = req.params;
-        const { orderStatus } = req.body;
-        const validStatuses = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'];
-        if (!orderStatus || !validStatuses.includes(orderStatus)) return res.status(400).json({ message: 'Invalid order status.' });
-        const updatedOrder = await Order.findByIdAndUpdate(id, { orderStatus }, { new: true });
-        if (!updatedOrder) return res.status(404).json({ message: 'Order not found.' });
-        res.status(200).json(updatedOrder);
+        await newOrder.save();
     } catch (error) {
-        res.status(500).json({ message: 'Server error updating order status.' });
+        await releaseStock(orderItems);
+        if (couponResult) await releaseCoupon(couponResult.coupon._id, user._id);
+        throw error;
+    }
+
+    // COD হলে এখনই পেমেন্ট রেকর্ড; অনলাইন পেমেন্ট হলে ক্লায়েন্ট /api/payments/initiate কল করবে
+    if (paymentMethod === 'cod') {
+        await Payment.create({
+            order: newOrder._id,
+            user: user._id,
+            provider: 'cod',
+            transactionId: generateTransactionId(),
+            amount: newOrder.grandTotal,
+            status: 'pending',
+        });
     }
+
+    // ৬. ইউজার-এর কার্ট খালি করুন
+    user.cart = [];
+    await user.save();
+
+    // ৭. কাস্টমার আর অ্যাডমিনদের নোটিফিকেশন আউটবক্সে (পাঠানো ব্যর্থ হলেও অর্ডার থাকবে)
+    await notifyOrderPlaced(newOrder);
+
+    // ৮. সফল রেসপন্স পাঠান
+    res.status(201).json({ message: 'Order placed successfully!', order: newOrder });
+});
+
+
+app.patch('/api/orders/:id/status', verifyToken, verifyOrderManager, validate({ params: idParams, body: orderStatusBody }), async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { orderStatus, note } = req.body;
+    const order = await Order.findById(id);
+    if (!order) throw new ApiError(404, 'Order not found.');
+
+    const updatedOrder = await changeOrderStatus(order, orderStatus, (req as any).user._id, note);
+    if (!updatedOrder) throw new ApiError(409, 'Order status was changed by someone else. Please retry.');
+    res.status(200).json(updatedOrder);
 });
 
 // ✅ [NEW ROUTE] - Get orders for the logged-in user
 app.get('/api/orders/my-orders', verifyToken, async (req: Request, res: Response) => {
+    const userEmail = (req as any).decoded.email;
+    const user = await User.findOne({ email: userEmail });
+    if (!user) {
+        throw new ApiError(404, 'User not found');
+    }
+
+    const orders = await Order.find({ user: user._id })
+        .populate('items.product', 'name images pricing') // Populate product details
+        .populate('statusHistory.changedBy', 'name role')
+        .sort({ createdAt: -1 }); // Show newest first
+
+    res.status(200).json(orders);
+});
+
+// ✅ অ্যাডমিন: রিটার্ন রিকোয়েস্টগুলোর তালিকা (?status=requested|approved|rejected)
+app.get('/api/orders/returns', verifyToken, verifyOrderManager, validate({ query: returnListQuery }), async (req: Request, res: Response) => {
+    const { status } = req.query;
+    const query: any = { 'returnRequests.0': { $exists: true } };
+    if (status) query['returnRequests.status'] = status;
+    const orders = await Order.find(query)
+        .populate('user', 'name email')
+        .populate('returnRequests.items.product', 'name')
+        .sort({ updatedAt: -1 });
+    res.status(200).json(orders);
+});
+
+// ✅ 'processing' স্ট্যাটাসের সব অর্ডারের প্যাকিং স্লিপ, এক PDF এ প্রতি অর্ডার এক পাতা
+app.get('/api/orders/packing-slips', verifyToken, verifyOrderManager, async (req: Request, res: Response) => {
+    const orders = await Order.find({ orderStatus: 'processing' })
+        .sort({ createdAt: 1 })
+        .populate<{ items: PopulatedOrderItem[] }>('items.product', 'name')
+        .populate<{ user: PopulatedOrderUser | null }>('user', 'name email phone');
+    if (orders.length === 0) throw new ApiError(404, 'No orders are waiting to be packed.');
+
+    const pdf = await buildPackingSlipsPdf(orders);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="packing-slips-${new Date().toISOString().slice(0, 10)}.pdf"`);
+    res.status(200).send(pdf);
+});
+
+// ✅ হিসাবের জন্য অর্ডার CSV (?from=&to= ডিফল্ট শেষ ৩০ দিন, ?status=delivered,shipped)
+app.get('/api/orders/export', verifyToken, verifyOrderManager, validate({ query: orderExportQuery }), async (req: Request, res: Response) => {
+    const query = validatedQuery(req, orderExportQuery);
+    const range = parseDateRange(query);
+    const filter: Record<string, unknown> = { createdAt: { $gte: range.from, $lte: range.to } };
+    if (query.status?.length) filter.orderStatus = { $in: query.status };
+
+    const orders = await Order.find(filter).sort({ createdAt: 1 }).populate<{ user: PopulatedOrderUser | null }>('user', 'name email phone');
+    const csv = await buildOrdersCsv(orders);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="orders-${range.from.toISOString().slice(0, 10)}-${range.to.toISOString().slice(0, 10)}.csv"`);
+    res.status(200).send(csv);
+});
+
+// ✅ অর্ডারের PDF ইনভয়েস (অর্ডারের সময়কার দাম) - অর্ডারের মালিক বা স্টাফ
+app.get('/api/orders/:id/invoice', verifyToken, validate({ params: idParams }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const order = await Order.findById(req.params.id)
+        .populate<{ items: PopulatedOrderItem[] }>('items.product', 'name')
+        .populate<{ user: PopulatedOrderUser | null }>('user', 'name email phone');
+    if (!order) throw new ApiError(404, 'Order not found.');
+
+    const isStaff = user.role === 'admin' || user.role === 'order-manager';
+    if (!isStaff && String(order.user?._id) !== String(user._id)) {
+        throw new ApiError(403, 'forbidden access');
+    }
+
+    const pdf = await buildInvoicePdf(order);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${formatInvoiceNumber(order)}.pdf"`);
+    res.status(200).send(pdf);
+});
+
+// ✅ একটি অর্ডারের বিস্তারিত (টাইমলাইন সহ) - শুধু অর্ডারের মালিক বা স্টাফ দেখতে পারবে
+app.get('/api/orders/:id', verifyToken, validate({ params: idParams }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const order = await Order.findById(req.params.id)
+        .populate('items.product', 'name slug images pricing')
+        .populate('statusHistory.changedBy', 'name role');
+    if (!order) throw new ApiError(404, 'Order not found.');
+
+    const isStaff = user.role === 'admin' || user.role === 'order-manager';
+    if (!isStaff && String(order.user) !== String(user._id)) {
+        throw new ApiError(403, 'forbidden access');
+    }
+    res.status(200).json(order);
+});
+
+// ✅ কাস্টমার নিজের অর্ডার বাতিল করতে পারবে (শুধু 'pending' বা 'processing' অবস্থায়)
+app.post('/api/orders/:id/cancel', verifyToken, validate({ params: idParams, body: cancelOrderBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const order = await Order.findById(req.params.id);
+    if (!order || String(order.user) !== String(user._id)) throw new ApiError(404, 'Order not found.');
+    if (!['pending', 'processing'].includes(order.orderStatus)) {
+        throw new ApiError(400, 'This order can no longer be cancelled.');
+    }
+
+    const updatedOrder = await changeOrderStatus(order, 'cancelled', user._id as IOrder['user'], req.body.reason);
+    if (!updatedOrder) throw new ApiError(409, 'Order status was changed. Please refresh and try again.');
+    res.status(200).json(updatedOrder);
+});
+
+// ✅ ডেলিভারি হওয়া অর্ডারের জন্য রিটার্ন/রিফান্ড রিকোয়েস্ট
+// body: { reason, items: [{ product, quantity }] }
+app.post('/api/orders/:id/returns', verifyToken, validate({ params: idParams, body: returnRequestBody }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const order = await Order.findById(req.params.id);
+    if (!order || String(order.user) !== String(user._id)) throw new ApiError(404, 'Order not found.');
+
+    const updatedOrder = await createReturnRequest(order, req.body.items, req.body.reason);
+    if (!updatedOrder) throw new ApiError(409, 'Order was changed. Please refresh and try again.');
+    res.status(201).json(updatedOrder);
+});
+
+// ✅ অ্যাডমিন: রিটার্ন রিকোয়েস্ট approve/reject
+// body: { action: 'approve' | 'reject', note?, restock? (ডিফল্ট true) }
+app.patch('/api/orders/:id/returns/:returnId', verifyToken, verifyOrderManager, validate({ params: returnParams, body: resolveReturnBody }), async (req: Request, res: Response) => {
+    const { id, returnId } = req.params;
+    const { action, note, restock } = req.body;
+
+    const order = await Order.findById(id);
+    if (!order) throw new ApiError(404, 'Order not found.');
+
+    const updatedOrder = await resolveReturnRequest(order, returnId, action, (req as any).user._id, { note, restock });
+    if (!updatedOrder) throw new ApiError(409, 'Return request was changed by someone else. Please retry.');
+    res.status(200).json(updatedOrder);
+});
+
+// ================== PAYMENT API ROUTES ==================
+const getCallbackBaseUrl = (req: Request) =>
+    (process.env.PUBLIC_BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+const getFrontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+// ✅ অনলাইন পেমেন্ট শুরু (body: { orderId, provider }) - রিডাইরেক্ট URL ফেরত দেয়
+app.post('/api/payments/initiate', verifyToken, rateLimit('orders'), validate({ body: initiatePaymentBody }), async (req: Request, res: Response) => {
+    const { orderId, provider: providerName } = req.body;
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+
+    const order = await Order.findById(orderId);
+    if (!order || String(order.user) !== String(user._id)) throw new ApiError(404, 'Order not found.');
+    if (order.orderStatus === 'cancelled' || !['pending', 'failed'].includes(order.paymentStatus)) {
+        throw new ApiError(400, 'This order cannot be paid.');
+    }
+
+    const name = providerName || order.paymentMethod;
+    const provider = getPaymentProvider(name);
+    if (!provider) throw new ApiError(400, 'Unsupported payment method.');
+
+    const payment = await Payment.create({
+        order: order._id,
+        user: user._id,
+        provider: provider.name,
+        transactionId: generateTransactionId(),
+        amount: order.grandTotal ?? order.totalAmount,
+    });
+    const result = await provider.initiate({
+        payment,
+        order,
+        customer: { name: user.name, email: user.email, phone: user.phone },
+        callbackBaseUrl: getCallbackBaseUrl(req),
+    });
+
+    payment.status = result.status;
+    if (result.providerReference) payment.providerReference = result.providerReference;
+    await payment.save();
+    if (order.paymentMethod !== provider.name) await Order.updateOne({ _id: order._id }, { paymentMethod: provider.name });
+
+    res.status(201).json({ payment, redirectUrl: result.redirectUrl || null });
+});
+
+// গেটওয়ে থেকে সার্ভার-টু-সার্ভার নোটিফিকেশন (IPN/webhook)
+app.post('/api/payments/webhook/:provider', validate({ params: providerParams }), async (req: Request, res: Response) => {
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) throw new ApiError(404, 'Unknown payment provider.');
+
+    const event = await provider.verifyCallback({ body: req.body, headers: req.headers, rawBody: (req as any).rawBody });
+    const { payment, duplicate } = await processPaymentEvent(provider.name, event);
+    if (!payment) throw new ApiError(404, 'Payment not found.');
+    res.status(200).json({ received: true, duplicate, status: payment.status });
+});
+
+// কাস্টমারের ব্রাউজার গেটওয়ে থেকে এখানে ফেরে; যাচাই করে ফ্রন্টএন্ডে রিডাইরেক্ট
+app.post('/api/payments/callback/:provider/:result', validate({ params: paymentCallbackParams }), async (req: Request, res: Response) => {
+    const frontendUrl = getFrontendUrl();
     try {
-        const userEmail = (req as any).decoded.email;
-        const user = await User.findOne({ email: userEmail });
-        if (!user) {
-            return res.status(404).json({ message: 'User not found' });
-        }
-        
-        const orders = await Order.find({ user: user._id })
-            .populate('items.product', 'name images pricing') // Populate product details
-            .sort({ createdAt: -1 }); // Show newest first
-            
-        res.status(200).json(orders);
-        
+        const provider = getPaymentProvider(req.params.provider);
+        if (!provider) return res.redirect(303, `${frontendUrl}/payment/failed`);
+
+        const event = await provider.verifyCallback({ body: req.body, headers: req.headers, rawBody: (req as any).rawBody });
+        const { payment } = await processPaymentEvent(provider.name, event);
+        if (!payment) return res.redirect(303, `${frontendUrl}/payment/failed`);
+
+        const result = payment.status === 'paid' ? 'success' : payment.status === 'cancelled' ? 'cancelled' : 'failed';
+        res.redirect(303, `${frontendUrl}/payment/${result}?order=${payment.order}`);
     } catch (error) {
-        console.error("Fetch My Orders Error:", error);
-        res.status(500).json({ message: 'Server error fetching orders.' });
+        console.error("Payment Callback Error:", error);
+        res.redirect(303, `${frontendUrl}/payment/failed`);
     }
 });
+
+// একটি অর্ডারের সব পেমেন্ট (মালিক বা স্টাফ)
+app.get('/api/payments/order/:orderId', verifyToken, validate({ params: orderIdParams }), async (req: Request, res: Response) => {
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    const order = await Order.findById(req.params.orderId);
+    if (!order) throw new ApiError(404, 'Order not found.');
+
+    const isStaff = user.role === 'admin' || user.role === 'order-manager';
+    if (!isStaff && String(order.user) !== String(user._id)) throw new ApiError(403, 'forbidden access');
+
+    const payments = await Payment.find({ order: order._id }).select(isStaff ? '' : '-events -processedEventIds').sort({ createdAt: -1 });
+    res.status(200).json(payments);
+});
+
+// ✅ Mock গেটওয়ে (ENABLE_MOCK_PAYMENTS=true হলে, শুধু লোকাল ডেভেলপমেন্টে): পেমেন্টের মালিক (বা অ্যাডমিন) ছাড়া কেউ
+// পেমেন্টের তথ্য দেখতে বা সিমুলেট করতে পারবে না
+const findMockPayment = async (req: Request) => {
+    if (!getPaymentProvider('mock')) throw new ApiError(404, 'Mock payments are disabled.');
+    const user = await User.findOne({ email: (req as any).decoded.email });
+    if (!user) throw new ApiError(404, 'User not found');
+    const payment = await Payment.findOne({ transactionId: req.params.transactionId, provider: 'mock' });
+    if (!payment || (user.role !== 'admin' && String(payment.user) !== String(user._id))) throw new ApiError(404, 'Payment not found.');
+    return payment;
+};
+
+app.get('/api/payments/mock/checkout/:transactionId', verifyToken, validate({ params: mockPaymentParams }), async (req: Request, res: Response) => {
+    const payment = await findMockPayment(req);
+    res.status(200).json({
+        transactionId: payment.transactionId,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        simulateUrl: `/api/payments/mock/${payment.transactionId}/simulate`,
+    });
+});
+
+// body: { status: 'paid' | 'failed' | 'cancelled', amount?, eventId? } - আসল ওয়েবহুকের মতোই সাইন করে প্রসেস হয়
+app.post('/api/payments/mock/:transactionId/simulate', verifyToken, validate({ params: mockPaymentParams, body: mockSimulateBody }), async (req: Request, res: Response) => {
+    const payment = await findMockPayment(req);
+    const provider = getPaymentProvider('mock')!;
+    const { status, amount, eventId } = req.body;
+
+    const rawBody = Buffer.from(JSON.stringify({
+        eventId: eventId || crypto.randomUUID(),
+        transactionId: payment.transactionId,
+        status,
+        amount: amount ?? payment.amount,
+    }));
+    const event = await provider.verifyCallback({
+        body: JSON.parse(rawBody.toString()),
+        headers: { [MOCK_SIGNATURE_HEADER]: signMockPayload(rawBody) },
+        rawBody,
+    });
+    res.status(200).json(await processPaymentEvent(provider.name, event));
+});
+
+// ================== ADMIN ANALYTICS API ROUTES ==================
+// সব রুটে ?from=&to= (ডিফল্ট শেষ ৩০ দিন); বাতিল অর্ডার কোনো হিসাবে ধরা হয় না
+const sendAnalytics = (handler: (req: Request) => Promise<unknown>) => async (req: Request, res: Response) => {
+    res.status(200).json(await handler(req));
+};
+
+// রেভিনিউ, অর্ডার সংখ্যা, AOV
+app.get('/api/admin/analytics/summary', verifyToken, verifyAdmin, validate({ query: analyticsQuery }), sendAnalytics(req =>
+    getSalesSummary(parseDateRange(req.query))
+));
+
+// ?interval=day|week|month
+app.get('/api/admin/analytics/sales', verifyToken, verifyAdmin, validate({ query: analyticsQuery }), sendAnalytics(async req => {
+    const range = parseDateRange(req.query);
+    const interval = parseInterval(req.query.interval);
+    return { ...range, interval, timeline: await getSalesTimeline(range, interval) };
+}));
+
+app.get('/api/admin/analytics/top-products', verifyToken, verifyAdmin, validate({ query: analyticsQuery }), sendAnalytics(req =>
+    getTopProducts(parseDateRange(req.query), parseLimit(req.query.limit))
+));
+
+app.get('/api/admin/analytics/top-categories', verifyToken, verifyAdmin, validate({ query: analyticsQuery }), sendAnalytics(req =>
+    getTopCategories(parseDateRange(req.query), parseLimit(req.query.limit))
+));
+
+app.get('/api/admin/analytics/status-funnel', verifyToken, verifyAdmin, validate({ query: analyticsQuery }), sendAnalytics(req =>
+    getStatusFunnel(parseDateRange(req.query))
+));
+
+app.get('/api/admin/analytics/customers', verifyToken, verifyAdmin, validate({ query: analyticsQuery }), sendAnalytics(req =>
+    getCustomerBreakdown(parseDateRange(req.query))
+));
+
+// ?threshold=5&limit=50 (তারিখের ফিল্টার লাগে না)
+app.get('/api/admin/analytics/low-stock', verifyToken, verifyAdmin, validate({ query: lowStockQuery }), sendAnalytics(req =>
+    getLowStockProducts(req.query.threshold, parseLimit(req.query.limit, 50, 500))
+));
+
+
+// ================== API DOCS ==================
+// ✅ OpenAPI 3.1 ডকুমেন্ট রুট, validate() স্কিমা আর Mongoose মডেল থেকে তৈরি; /api/docs এ Swagger UI
+app.get('/api/openapi.json', (req: Request, res: Response) => {
+    res.status(200).json(getOpenApiDocument(app));
+});
+
+app.use(SWAGGER_UI_ASSETS_PATH, express.static(getSwaggerUiAssetsDir(), { index: false, maxAge: '7d' }));
+app.get('/api/docs', (req: Request, res: Response) => {
+    sendApiDocsPage(res, '/api/openapi.json');
+});
+
+
 // ================== HEALTH CHECK ROUTE ==================
 app.get('/', (req: Request, res: Response) => {
     res.send('ReadyFood Farm Server is running...');
 });
 
+// ================== ERROR HANDLING ==================
+// অজানা API রুট আর সব রুটের এরর একই { code, message, fieldErrors? } আকারে
+app.use('/api', notFoundHandler);
+app.use(errorHandler);
+
 // সার্ভার শুরু করা হচ্ছে
 app.listen(port, () => {
     console.log(`🚀 TypeScript Server is rocking on http://localhost:${port}`);
+    startNotificationWorker();
 });
\ No newline at end of file
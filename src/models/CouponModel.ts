@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export const COUPON_TYPES = ['percentage', 'fixed'] as const;
+export type CouponType = typeof COUPON_TYPES[number];
+
+export interface ICoupon extends Document {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number; // percentage হলে % (১-১০০), fixed হলে টাকা
+  maxDiscount?: number | null; // percentage কুপনের সর্বোচ্চ ছাড়
+  minOrderValue: number;
+  usageLimit?: number | null; // মোট কতবার ব্যবহার করা যাবে (null = সীমাহীন)
+  perUserLimit?: number | null; // একজন ইউজার কতবার ব্যবহার করতে পারবে
+  usedCount: number;
+  startsAt?: Date | null;
+  expiresAt?: Date | null;
+  isActive: boolean;
+  // খালি থাকলে পুরো কার্টে প্রযোজ্য
+  applicableCategories: mongoose.Schema.Types.ObjectId[];
+  applicableProducts: mongoose.Schema.Types.ObjectId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CouponSchema: Schema<ICoupon> = new Schema(
+  {
+    code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+    description: { type: String, trim: true },
+    type: { type: String, enum: COUPON_TYPES, required: true },
+    value: { type: Number, required: true, min: 0 },
+    maxDiscount: { type: Number, min: 0, default: null },
+    minOrderValue: { type: Number, min: 0, default: 0 },
+    usageLimit: { type: Number, min: 1, default: null },
+    perUserLimit: { type: Number, min: 1, default: null },
+    usedCount: { type: Number, default: 0 },
+    startsAt: { type: Date, default: null },
+    expiresAt: { type: Date, default: null },
+    isActive: { type: Boolean, default: true },
+    applicableCategories: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Category' }],
+    applicableProducts: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Product' }],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CouponSchema.path('value').validate(function (this: ICoupon, value: number) {
+  return this.type !== 'percentage' || value <= 100;
+}, 'Percentage discount cannot exceed 100.');
+
+const Coupon: Model<ICoupon> = mongoose.model<ICoupon>('Coupon', CouponSchema);
+
+export default Coupon;
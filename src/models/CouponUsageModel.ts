@@ -0,0 +1,25 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+// প্রতিটি ইউজার একটি কুপন কতবার ব্যবহার করেছে (per-user limit অ্যাটমিক ভাবে চেক করার জন্য)
+export interface ICouponUsage extends Document {
+  coupon: mongoose.Schema.Types.ObjectId;
+  user: mongoose.Schema.Types.ObjectId;
+  count: number;
+}
+
+const CouponUsageSchema: Schema<ICouponUsage> = new Schema(
+  {
+    coupon: { type: mongoose.Schema.Types.ObjectId, ref: 'Coupon', required: true },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    count: { type: Number, default: 0 },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CouponUsageSchema.index({ coupon: 1, user: 1 }, { unique: true });
+
+const CouponUsage: Model<ICouponUsage> = mongoose.model<ICouponUsage>('CouponUsage', CouponUsageSchema);
+
+export default CouponUsage;
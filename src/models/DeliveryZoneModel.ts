@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+// flat: প্রতি অর্ডারে baseFee; per_item: baseFee + প্রতি পিসে perItemFee; weight: baseFee + প্রতি কেজিতে perKgFee
+export const SHIPPING_FEE_TYPES = ['flat', 'per_item', 'weight'] as const;
+export type ShippingFeeType = typeof SHIPPING_FEE_TYPES[number];
+
+export interface IDeliveryZone extends Document {
+  name: string; // যেমন: "Inside Dhaka", "Outside Dhaka"
+  cities: string[]; // lowercase এ রাখা হয়
+  postalCodePrefixes: string[];
+  isDefault: boolean; // কোনো জোনে না মিললে এটি ব্যবহার হবে
+  feeType: ShippingFeeType;
+  baseFee: number;
+  perItemFee: number;
+  perKgFee: number;
+  freeShippingThreshold?: number | null; // এর বেশি অর্ডারে ডেলিভারি ফ্রি
+  estimatedDays?: string;
+  isActive: boolean;
+}
+
+const DeliveryZoneSchema: Schema<IDeliveryZone> = new Schema(
+  {
+    name: { type: String, required: true, trim: true, unique: true },
+    cities: [{ type: String, lowercase: true, trim: true }],
+    postalCodePrefixes: [{ type: String, trim: true }],
+    isDefault: { type: Boolean, default: false },
+    feeType: { type: String, enum: SHIPPING_FEE_TYPES, default: 'flat' },
+    baseFee: { type: Number, required: true, min: 0 },
+    perItemFee: { type: Number, default: 0, min: 0 },
+    perKgFee: { type: Number, default: 0, min: 0 },
+    freeShippingThreshold: { type: Number, min: 0, default: null },
+    estimatedDays: { type: String },
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const DeliveryZone: Model<IDeliveryZone> = mongoose.model<IDeliveryZone>('DeliveryZone', DeliveryZoneSchema);
+
+export default DeliveryZone;
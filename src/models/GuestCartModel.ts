@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { CartItemSchema, ICartItem } from './UserModel';
+
+// লগইন ছাড়া ভিজিটরের কার্ট/উইশলিস্ট। ক্লায়েন্ট শুধু অপেক (opaque) টোকেন রাখে, এখানে তার হ্যাশ।
+// লগইন বা সাইনআপের পর ইউজারের কার্টে মিশে গিয়ে (ইউজার সেভ হওয়ার পরে) ডকুমেন্টটি মুছে যায়।
+export interface IGuestCart extends Document {
+  tokenHash: string;
+  cart: ICartItem[];
+  wishlist: mongoose.Schema.Types.ObjectId[];
+  expiresAt: Date;
+  mergingUntil?: Date | null; // লগইনের সময় মেশানো চলছে (একই কার্ট দুবার মেশানো ঠেকাতে)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GuestCartSchema: Schema<IGuestCart> = new Schema(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    cart: [CartItemSchema],
+    wishlist: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Product' }],
+    // প্রতিবার আপডেটে মেয়াদ বাড়ে; মেয়াদ শেষ হলে MongoDB নিজেই মুছে দেবে
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+    mergingUntil: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const GuestCart: Model<IGuestCart> = mongoose.model<IGuestCart>('GuestCart', GuestCartSchema);
+
+export default GuestCart;
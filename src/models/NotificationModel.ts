@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { USER_LANGUAGES, UserLanguage } from './UserModel';
+
+// নোটিফিকেশন আউটবক্স: যে কোড নোটিফিকেশন তৈরি করে সে শুধু এখানে একটি লাইন রাখে, কখনো পাঠানোর
+// জন্য অপেক্ষা করে না। পাঠানোর কাজ utils/notifications এর ওয়ার্কার করে, ব্যর্থ হলে পরে আবার চেষ্টা।
+// queued → sending → sent, অথবা বারবার ব্যর্থ হলে failed
+export const NOTIFICATION_STATUSES = ['queued', 'sending', 'sent', 'failed'] as const;
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+
+export const NOTIFICATION_CHANNELS = ['email', 'sms'] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export interface INotification extends Document {
+  user: mongoose.Schema.Types.ObjectId;
+  type: string; // যেমন 'back_in_stock', 'order_placed', 'admin_new_order'
+  channel: NotificationChannel;
+  locale?: UserLanguage; // না থাকলে পাঠানোর সময় ইউজারের ভাষা
+  recipient?: string; // ইমেইল/ফোন; না থাকলে পাঠানোর সময় ইউজার থেকে
+  product?: mongoose.Schema.Types.ObjectId;
+  order?: mongoose.Schema.Types.ObjectId;
+  data: Record<string, unknown>;
+  status: NotificationStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil: Date | null; // 'sending' অবস্থায় ওয়ার্কার ক্র্যাশ করলে এর পরে আবার নেওয়া যাবে
+  lastError: string | null;
+  sentAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationSchema: Schema<INotification> = new Schema(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    type: { type: String, required: true },
+    channel: { type: String, enum: NOTIFICATION_CHANNELS, default: 'email' },
+    locale: { type: String, enum: USER_LANGUAGES },
+    recipient: { type: String },
+    product: { type: mongoose.Schema.Types.ObjectId, ref: 'Product' },
+    order: { type: mongoose.Schema.Types.ObjectId, ref: 'Order' },
+    data: { type: Schema.Types.Mixed, default: {} },
+    status: { type: String, enum: NOTIFICATION_STATUSES, default: 'queued', index: true },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, default: Date.now },
+    lockedUntil: { type: Date, default: null },
+    lastError: { type: String, default: null },
+    sentAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ওয়ার্কার যে ক্রমে পাঠানোর জন্য খোঁজে
+NotificationSchema.index({ status: 1, nextAttemptAt: 1 });
+
+const Notification: Model<INotification> = mongoose.model<INotification>('Notification', NotificationSchema);
+
+export default Notification;
@@ -3,56 +3,191 @@ import mongoose, { Document, Schema, Model } from 'mongoose';
 // একটি অর্ডারের মধ্যে থাকা প্রতিটি পণ্যের জন্য ইন্টারফেস
 export interface IOrderItem {
   product: mongoose.Schema.Types.ObjectId;
+  variant?: mongoose.Schema.Types.ObjectId | null;
+  variantLabel?: string; // অর্ডারের সময়কার ভ্যারিয়েন্টের নাম, যেমন "500g"
+  sku?: string;
   quantity: number;
   price: number; // Price at the time of order
 }
 
+export const ORDER_STATUSES = ['pending', 'processing', 'shipped', 'delivered', 'cancelled'] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// কোন স্ট্যাটাস থেকে কোন স্ট্যাটাসে যাওয়া যাবে। শিপ হওয়ার পরে আর বাতিল করা যাবে না।
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus): boolean =>
+  ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+// স্ট্যাটাস পরিবর্তনের টাইমলাইন
+export interface IOrderStatusHistory {
+  status: OrderStatus;
+  changedBy: mongoose.Schema.Types.ObjectId;
+  changedAt: Date;
+  note?: string;
+}
+
+export const PAYMENT_STATUSES = ['pending', 'paid', 'failed', 'partially_refunded', 'refunded'] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+// ডেলিভারির পরে কাস্টমারের রিটার্ন/রিফান্ড রিকোয়েস্ট
+export const RETURN_STATUSES = ['requested', 'approved', 'rejected'] as const;
+export type ReturnStatus = typeof RETURN_STATUSES[number];
+
+export interface IReturnItem {
+  product: mongoose.Schema.Types.ObjectId;
+  variant?: mongoose.Schema.Types.ObjectId | null;
+  quantity: number;
+}
+
+export interface IReturnRequest {
+  _id?: mongoose.Types.ObjectId;
+  items: IReturnItem[];
+  reason: string;
+  status: ReturnStatus;
+  refundAmount: number;
+  requestedAt: Date;
+  resolvedAt?: Date;
+  resolvedBy?: mongoose.Schema.Types.ObjectId;
+  resolutionNote?: string;
+}
+
+// অর্ডারে ব্যবহৃত কুপনের হিসাব (কোন লাইনে কত ছাড়)
+export interface IOrderCoupon {
+  coupon: mongoose.Schema.Types.ObjectId;
+  code: string;
+  type: 'percentage' | 'fixed';
+  value: number;
+  eligibleSubtotal: number;
+  discount: number;
+  lines: { product: mongoose.Schema.Types.ObjectId; variant?: mongoose.Schema.Types.ObjectId | null; discount: number }[];
+}
+
 // মূল অর্ডার ডকুমেন্টের জন্য ইন্টারফেস
-export interface IOrder extends Document {
+export interface IOrder extends Document<mongoose.Types.ObjectId> {
   user: mongoose.Schema.Types.ObjectId; // Assuming you have a User model
   items: IOrderItem[];
-  totalAmount: number;
+  subtotal: number;
+  discount: number;
+  coupon?: IOrderCoupon | null;
+  shippingFee: number;
+  tax: number;
+  grandTotal: number;
+  deliveryZone?: string; // অর্ডারের সময়কার জোনের নাম
+  totalAmount: number; // পুরনো ক্লায়েন্টের জন্য, grandTotal এর সমান
   shippingAddress: {
     fullName: string;
+    phone?: string;
     address: string;
     city: string;
     postalCode: string;
     country: string;
   };
-  paymentStatus: 'pending' | 'paid' | 'failed';
-  orderStatus: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  paymentMethod: string; // 'cod', 'sslcommerz', 'mock' ...
+  paymentStatus: PaymentStatus;
+  orderStatus: OrderStatus;
+  statusHistory: IOrderStatusHistory[];
+  returnRequests: IReturnRequest[];
   createdAt: Date;
   updatedAt: Date;
 }
 
 const OrderItemSchema: Schema<IOrderItem> = new Schema({
   product: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true },
+  variant: { type: mongoose.Schema.Types.ObjectId, default: null },
+  variantLabel: { type: String },
+  sku: { type: String },
   quantity: { type: Number, required: true, min: 1 },
   price: { type: Number, required: true },
 });
 
+const OrderStatusHistorySchema: Schema<IOrderStatusHistory> = new Schema(
+  {
+    status: { type: String, enum: ORDER_STATUSES, required: true },
+    changedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    changedAt: { type: Date, default: Date.now },
+    note: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+const ReturnRequestSchema: Schema<IReturnRequest> = new Schema({
+  items: [
+    {
+      _id: false,
+      product: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true },
+      variant: { type: mongoose.Schema.Types.ObjectId, default: null },
+      quantity: { type: Number, required: true, min: 1 },
+    },
+  ],
+  reason: { type: String, required: true, trim: true },
+  status: { type: String, enum: RETURN_STATUSES, default: 'requested' },
+  refundAmount: { type: Number, required: true },
+  requestedAt: { type: Date, default: Date.now },
+  resolvedAt: { type: Date },
+  resolvedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  resolutionNote: { type: String, trim: true },
+});
+
+const OrderCouponSchema: Schema<IOrderCoupon> = new Schema(
+  {
+    coupon: { type: mongoose.Schema.Types.ObjectId, ref: 'Coupon', required: true },
+    code: { type: String, required: true },
+    type: { type: String, enum: ['percentage', 'fixed'], required: true },
+    value: { type: Number, required: true },
+    eligibleSubtotal: { type: Number, required: true },
+    discount: { type: Number, required: true },
+    lines: [
+      {
+        _id: false,
+        product: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true },
+        variant: { type: mongoose.Schema.Types.ObjectId, default: null },
+        discount: { type: Number, required: true },
+      },
+    ],
+  },
+  { _id: false }
+);
+
 const OrderSchema: Schema<IOrder> = new Schema(
   {
     user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
     items: [OrderItemSchema],
+    subtotal: { type: Number },
+    discount: { type: Number, default: 0 },
+    coupon: { type: OrderCouponSchema, default: null },
+    shippingFee: { type: Number, default: 0 },
+    tax: { type: Number, default: 0 },
+    grandTotal: { type: Number },
+    deliveryZone: { type: String },
     totalAmount: { type: Number, required: true },
     shippingAddress: {
       fullName: { type: String, required: true },
+      phone: { type: String },
       address: { type: String, required: true },
       city: { type: String, required: true },
       postalCode: { type: String, required: true },
       country: { type: String, required: true },
     },
+    paymentMethod: { type: String, default: 'cod' },
     paymentStatus: {
       type: String,
-      enum: ['pending', 'paid', 'failed'],
+      enum: PAYMENT_STATUSES,
       default: 'pending',
     },
     orderStatus: {
       type: String,
-      enum: ['pending', 'processing', 'shipped', 'delivered', 'cancelled'],
+      enum: ORDER_STATUSES,
       default: 'pending',
     },
+    statusHistory: [OrderStatusHistorySchema],
+    returnRequests: [ReturnRequestSchema],
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt fields
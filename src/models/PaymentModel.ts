@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export const PAYMENT_RECORD_STATUSES = ['initiated', 'pending', 'paid', 'failed', 'cancelled'] as const;
+export type PaymentRecordStatus = typeof PAYMENT_RECORD_STATUSES[number];
+
+// গেটওয়ে থেকে আসা প্রতিটি ইভেন্ট (অডিটের জন্য)
+export interface IPaymentEvent {
+  eventId: string;
+  status: PaymentRecordStatus;
+  amount?: number;
+  payload: Record<string, unknown>;
+  receivedAt: Date;
+}
+
+export interface IPayment extends Document {
+  order: mongoose.Schema.Types.ObjectId;
+  user: mongoose.Schema.Types.ObjectId;
+  provider: string;
+  transactionId: string; // আমাদের দেওয়া tran_id, গেটওয়েতে পাঠানো হয়
+  providerReference?: string; // গেটওয়ের নিজস্ব আইডি (যেমন SSLCommerz val_id)
+  amount: number;
+  currency: string;
+  status: PaymentRecordStatus;
+  events: IPaymentEvent[];
+  processedEventIds: string[]; // একই কলব্যাক দুবার এলে আবার প্রসেস হবে না
+  refundRequired: boolean; // বাতিল অর্ডারে টাকা এসেছে - অ্যাডমিনকে ফেরত দিতে হবে
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentEventSchema: Schema<IPaymentEvent> = new Schema(
+  {
+    eventId: { type: String, required: true },
+    status: { type: String, enum: PAYMENT_RECORD_STATUSES, required: true },
+    amount: { type: Number },
+    payload: { type: Schema.Types.Mixed },
+    receivedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const PaymentSchema: Schema<IPayment> = new Schema(
+  {
+    order: { type: mongoose.Schema.Types.ObjectId, ref: 'Order', required: true, index: true },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    provider: { type: String, required: true },
+    transactionId: { type: String, required: true, unique: true },
+    providerReference: { type: String },
+    amount: { type: Number, required: true },
+    currency: { type: String, default: 'BDT' },
+    status: { type: String, enum: PAYMENT_RECORD_STATUSES, default: 'initiated' },
+    events: [PaymentEventSchema],
+    processedEventIds: [{ type: String }],
+    refundRequired: { type: Boolean, default: false, index: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Payment: Model<IPayment> = mongoose.model<IPayment>('Payment', PaymentSchema);
+
+export default Payment;
@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+// উইশলিস্টের প্রোডাক্ট আবার স্টকে এলে বা ডিসকাউন্ট পেলে ইউজারকে জানানোর সাবস্ক্রিপশন
+export const PRODUCT_ALERT_TYPES = ['back_in_stock', 'discount'] as const;
+export type ProductAlertType = typeof PRODUCT_ALERT_TYPES[number];
+
+export interface IProductAlert extends Document {
+  user: mongoose.Schema.Types.ObjectId;
+  product: mongoose.Schema.Types.ObjectId;
+  types: ProductAlertType[];
+  lastNotifiedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProductAlertSchema: Schema<IProductAlert> = new Schema(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    product: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true, index: true },
+    types: [{ type: String, enum: PRODUCT_ALERT_TYPES }],
+    lastNotifiedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// একজন ইউজারের একটি প্রোডাক্টে একটিই সাবস্ক্রিপশন
+ProductAlertSchema.index({ user: 1, product: 1 }, { unique: true });
+
+const ProductAlert: Model<IProductAlert> = mongoose.model<IProductAlert>('ProductAlert', ProductAlertSchema);
+
+export default ProductAlert;
@@ -1,4 +1,23 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { buildNGrams } from '../utils/search';
+
+// একই প্রোডাক্টের আলাদা সাইজ/প্যাক (যেমন ঘি 250g/500g/1kg), প্রত্যেকটির নিজস্ব SKU, দাম আর স্টক
+export interface IProductVariant {
+  _id?: mongoose.Types.ObjectId;
+  sku: string;
+  label: string; // যেমন "500g"
+  attributes: {
+    weight?: string;
+    packSize?: string;
+  };
+  pricing: {
+    regular: number;
+    discount?: number;
+  };
+  stock: number;
+  weight?: number; // কেজিতে
+  isDefault: boolean;
+}
 
 export interface IProduct extends Document {
   name: string;
@@ -10,6 +29,7 @@ export interface IProduct extends Document {
     discount?: number;
   };
   stock: number;
+  weight?: number; // কেজিতে, ডেলিভারি চার্জ হিসাবের জন্য
   status: boolean;
   images: string[];
   details: {
@@ -21,8 +41,32 @@ export interface IProduct extends Document {
     metaTitle?: string;
     metaDescription?: string;
   };
+  // ভ্যারিয়েন্ট থাকলে উপরের pricing/weight ডিফল্ট ভ্যারিয়েন্টের, আর stock সব ভ্যারিয়েন্টের যোগফল
+  variants: IProductVariant[];
+  // রিভিউ থেকে হিসাব করা (ক্লায়েন্ট সেট করবে না)
+  averageRating: number;
+  reviewCount: number;
+  // সার্চের জন্য স্বয়ংক্রিয়ভাবে রাখা ফিল্ড (ক্লায়েন্ট সেট করবে না)
+  categoryName?: string;
+  searchGrams: string[];
 }
 
+const ProductVariantSchema: Schema<IProductVariant> = new Schema({
+  sku: { type: String, required: true, trim: true, uppercase: true },
+  label: { type: String, required: true, trim: true },
+  attributes: {
+    weight: { type: String, trim: true },
+    packSize: { type: String, trim: true },
+  },
+  pricing: {
+    regular: { type: Number, required: true, min: 0 },
+    discount: { type: Number, min: 0 },
+  },
+  stock: { type: Number, required: true, default: 0 },
+  weight: { type: Number, min: 0, default: 0 },
+  isDefault: { type: Boolean, default: false },
+});
+
 const ProductSchema: Schema<IProduct> = new Schema(
   {
     name: { type: String, required: true, trim: true },
@@ -38,6 +82,7 @@ const ProductSchema: Schema<IProduct> = new Schema(
       discount: { type: Number },
     },
     stock: { type: Number, required: true, default: 0 },
+    weight: { type: Number, min: 0, default: 0 },
     status: { type: Boolean, default: false },
     images: [{ type: String }],
     details: {
@@ -49,12 +94,98 @@ const ProductSchema: Schema<IProduct> = new Schema(
       metaTitle: { type: String },
       metaDescription: { type: String },
     },
+    variants: { type: [ProductVariantSchema], default: [] },
+    averageRating: { type: Number, default: 0 },
+    reviewCount: { type: Number, default: 0 },
+    categoryName: { type: String },
+    searchGrams: { type: [String], index: true, select: false },
   },
   {
     timestamps: true,
   }
 );
 
+// ✅ Weighted full-text index: নামে মিল সবচেয়ে গুরুত্বপূর্ণ, তারপর ব্র্যান্ড, ক্যাটাগরি, বিবরণ
+ProductSchema.index(
+  { name: 'text', brand: 'text', categoryName: 'text', 'details.description': 'text' },
+  {
+    name: 'ProductTextIndex',
+    weights: { name: 10, brand: 5, categoryName: 3, 'details.description': 1 },
+  }
+);
+
+// SKU সব প্রোডাক্ট মিলিয়ে ইউনিক (ভ্যারিয়েন্ট ছাড়া প্রোডাক্টে কোনো SKU থাকে না)
+ProductSchema.index({ 'variants.sku': 1 }, { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } });
+
+// ডিফল্ট ভ্যারিয়েন্ট ঠিক করা আর তার দাম/ওজন, মোট স্টক প্রোডাক্টে কপি করা
+export const summarizeVariants = (variants: IProductVariant[]) => {
+  const defaultIndex = Math.max(variants.findIndex(variant => variant.isDefault), 0);
+  variants.forEach((variant, index) => { variant.isDefault = index === defaultIndex; });
+  const defaultVariant = variants[defaultIndex];
+  return {
+    variants,
+    pricing: { regular: defaultVariant.pricing.regular, discount: defaultVariant.pricing.discount },
+    weight: defaultVariant.weight || 0,
+    stock: variants.reduce((total, variant) => total + (Number(variant.stock) || 0), 0),
+  };
+};
+
+const assertUniqueSkus = (variants: IProductVariant[]) => {
+  if (new Set(variants.map(variant => String(variant.sku).trim().toUpperCase())).size === variants.length) return;
+  const error = new mongoose.Error.ValidationError();
+  error.addError('variants', new mongoose.Error.ValidatorError({ message: 'Variant SKUs must be unique.', path: 'variants' }));
+  throw error;
+};
+
+export const buildProductSearchGrams = (name?: string, brand?: string, categoryName?: string) =>
+  buildNGrams([name, brand, categoryName].filter(Boolean).join(' '));
+
+// সেভ করার আগে categoryName আর searchGrams আপডেট
+ProductSchema.pre('save', async function () {
+  if (this.isModified('category') || !this.categoryName) {
+    const category = await mongoose.model('Category').findById(this.category).select('name');
+    this.categoryName = category?.name;
+  }
+  this.searchGrams = buildProductSearchGrams(this.name, this.brand, this.categoryName);
+
+  if (this.variants.length > 0) {
+    assertUniqueSkus(this.variants);
+    const summary = summarizeVariants(this.variants);
+    this.pricing = summary.pricing;
+    this.weight = summary.weight;
+    this.stock = summary.stock;
+  }
+});
+
+// findByIdAndUpdate দিয়ে name/brand/category বদলালেও সার্চ ফিল্ড ঠিক থাকবে
+ProductSchema.pre('findOneAndUpdate', async function () {
+  const update = this.getUpdate() as Record<string, any> | null;
+  if (!update) return;
+  const changes = { ...update, ...(update.$set || {}) };
+
+  // পুরো variants লিস্ট বদলালে উপরের pricing/stock/weight ও মিলিয়ে দেওয়া
+  if (Array.isArray(changes.variants) && changes.variants.length > 0) {
+    assertUniqueSkus(changes.variants);
+    const summary = summarizeVariants(changes.variants);
+    this.set({ variants: summary.variants, pricing: summary.pricing, weight: summary.weight, stock: summary.stock });
+  }
+
+  if (changes.name === undefined && changes.brand === undefined && changes.category === undefined) return;
+
+  const current = await this.model.findOne(this.getQuery()).select('name brand category categoryName');
+  if (!current) return;
+
+  let categoryName = current.categoryName;
+  if (changes.category !== undefined) {
+    const category = await mongoose.model('Category').findById(changes.category).select('name');
+    categoryName = category?.name;
+  }
+  this.set({
+    categoryName,
+    searchGrams: buildProductSearchGrams(changes.name ?? current.name, changes.brand ?? current.brand, categoryName),
+  });
+});
+
 const Product: Model<IProduct> = mongoose.model<IProduct>('Product', ProductSchema);
 
 export default Product;
\ No newline at end of file
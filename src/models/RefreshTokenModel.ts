@@ -0,0 +1,33 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+// প্রতিটি রিফ্রেশ টোকেন একটি "family" তে থাকে। রোটেশনের সময় পুরনোটা revoke হয়,
+// আর কেউ revoked টোকেন আবার ব্যবহার করলে পুরো family বাতিল করা হয়।
+export interface IRefreshToken extends Document {
+  user: mongoose.Schema.Types.ObjectId;
+  tokenHash: string;
+  family: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefreshTokenSchema: Schema<IRefreshToken> = new Schema(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    tokenHash: { type: String, required: true, unique: true },
+    family: { type: String, required: true, index: true },
+    // মেয়াদ শেষ হলে MongoDB নিজেই ডকুমেন্ট মুছে দেবে
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+    revokedAt: { type: Date, default: null },
+    replacedBy: { type: String, default: null },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const RefreshToken: Model<IRefreshToken> = mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
+
+export default RefreshToken;
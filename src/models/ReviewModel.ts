@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export interface IReview extends Document {
+  product: mongoose.Schema.Types.ObjectId;
+  user: mongoose.Schema.Types.ObjectId;
+  order: mongoose.Schema.Types.ObjectId; // যে ডেলিভারড অর্ডার থেকে কেনা হয়েছে
+  rating: number;
+  comment?: string;
+  images: string[];
+  isVerifiedPurchase: boolean;
+  isHidden: boolean; // মডারেশনে লুকানো রিভিউ রেটিং এ গণনা হয় না
+  hiddenReason?: string;
+  moderatedBy?: mongoose.Schema.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReviewSchema: Schema<IReview> = new Schema(
+  {
+    product: { type: mongoose.Schema.Types.ObjectId, ref: 'Product', required: true, index: true },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    order: { type: mongoose.Schema.Types.ObjectId, ref: 'Order', required: true },
+    rating: { type: Number, required: true, min: 1, max: 5 },
+    comment: { type: String, trim: true, maxlength: 2000 },
+    images: [{ type: String }],
+    isVerifiedPurchase: { type: Boolean, default: false },
+    isHidden: { type: Boolean, default: false },
+    hiddenReason: { type: String, trim: true },
+    moderatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// একজন ইউজার একটি প্রোডাক্টে একটিই রিভিউ দিতে পারবে
+ReviewSchema.index({ product: 1, user: 1 }, { unique: true });
+
+const Review: Model<IReview> = mongoose.model<IReview>('Review', ReviewSchema);
+
+export default Review;
@@ -0,0 +1,25 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+// VAT নিয়ম: applicableCategories খালি থাকলে সব প্রোডাক্টে প্রযোজ্য
+export interface ITaxRule extends Document {
+  name: string;
+  rate: number; // শতাংশ, যেমন 5 মানে 5%
+  applicableCategories: mongoose.Schema.Types.ObjectId[];
+  isActive: boolean;
+}
+
+const TaxRuleSchema: Schema<ITaxRule> = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    rate: { type: Number, required: true, min: 0, max: 100 },
+    applicableCategories: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Category' }],
+    isActive: { type: Boolean, default: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const TaxRule: Model<ITaxRule> = mongoose.model<ITaxRule>('TaxRule', TaxRuleSchema);
+
+export default TaxRule;
@@ -1,29 +1,81 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
 
-// কার্টের প্রতিটি আইটেমের জন্য নতুন গঠন
-const CartItemSchema = new Schema({
+// কার্টের প্রতিটি আইটেমের জন্য নতুন গঠন (গেস্ট কার্টেও একই)
+export const CartItemSchema = new Schema({
     product: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'Product',
         required: true,
     },
+    // ভ্যারিয়েন্ট থাকা প্রোডাক্টের নির্দিষ্ট সাইজ/প্যাক (সিঙ্গেল-প্রাইস প্রোডাক্টে null)
+    variant: {
+        type: mongoose.Schema.Types.ObjectId,
+        default: null,
+    },
     quantity: {
         type: Number,
         required: true,
         min: 1,
         default: 1,
     },
+    // কার্টে যোগ করার সময়কার একক দাম - পরে দাম বদলালে ইউজারকে জানানোর জন্য
+    price: {
+        type: Number,
+    },
 });
 
+// ঠিকানা বই: একাধিক ঠিকানা, লেবেল ("Home", "Office") আর একটি ডিফল্ট
+export interface IAddress {
+  _id?: mongoose.Types.ObjectId;
+  label: string;
+  fullName: string;
+  phone?: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  country: string;
+  isDefault: boolean;
+}
+
+export const AddressSchema = new Schema<IAddress>({
+    label: { type: String, trim: true, default: 'Home' },
+    fullName: { type: String, required: true, trim: true },
+    phone: { type: String, trim: true },
+    address: { type: String, required: true, trim: true },
+    city: { type: String, required: true, trim: true },
+    postalCode: { type: String, required: true, trim: true },
+    country: { type: String, trim: true, default: 'Bangladesh' },
+    isDefault: { type: Boolean, default: false },
+});
+
+export interface ICartItem {
+  product: mongoose.Schema.Types.ObjectId;
+  variant?: mongoose.Schema.Types.ObjectId | null;
+  quantity: number;
+  price?: number;
+}
+
+// 'admin' সব কিছু করতে পারে; বাকি স্টাফ রোলগুলো নির্দিষ্ট সেকশনের জন্য
+export const USER_ROLES = ['user', 'admin', 'catalog-manager', 'order-manager'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// ইমেইল/SMS নোটিফিকেশনের ভাষা
+export const USER_LANGUAGES = ['bn', 'en'] as const;
+export type UserLanguage = typeof USER_LANGUAGES[number];
+
 export interface IUser extends Document {
   uid: string;
   name: string;
   email: string;
   phone: string;
   image?: string;
-  role: 'user' | 'admin';
-  cart: { product: mongoose.Schema.Types.ObjectId; quantity: number }[];
+  role: UserRole;
+  language: UserLanguage;
+  passwordHash?: string; // শুধু লোকাল email/password অ্যাকাউন্টের জন্য
+  cart: ICartItem[];
   wishlist: mongoose.Schema.Types.ObjectId[];
+  addresses: IAddress[];
+  deletedAt: Date | null; // অ্যাকাউন্ট মুছে ফেলা (ব্যক্তিগত তথ্য সরানো) হলে
 }
 
 const UserSchema: Schema<IUser> = new Schema(
@@ -35,14 +87,25 @@ const UserSchema: Schema<IUser> = new Schema(
     image: { type: String },
     role: {
       type: String,
-      enum: ['user', 'admin'],
+      enum: USER_ROLES,
       default: 'user',
     },
+    language: { type: String, enum: USER_LANGUAGES, default: 'bn' },
+    passwordHash: { type: String, select: false },
     cart: [CartItemSchema],
     wishlist: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Product' }],
+    addresses: { type: [AddressSchema], default: [] },
+    deletedAt: { type: Date, default: null },
   },
   {
     timestamps: true,
+    toJSON: {
+      // পাসওয়ার্ড হ্যাশ কখনো রেসপন্সে যাবে না
+      transform: (_doc, ret: Record<string, any>) => {
+        delete ret.passwordHash;
+        return ret;
+      },
+    },
   }
 );
 
@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/db';
+import Product from '../models/ProductModel';
+import { refreshProductSearchFields } from '../utils/products';
+
+// পুরনো প্রোডাক্টগুলোর জন্য text index আর searchGrams তৈরি করা
+// চালানো: npm run reindex:search
+dotenv.config();
+
+const run = async () => {
+    await connectDB();
+    await Product.syncIndexes();
+    const count = await refreshProductSearchFields();
+    console.log(`✅ Reindexed ${count} products for search.`);
+    await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+    console.error("❌ Reindex Error:", error);
+    await mongoose.disconnect();
+    process.exit(1);
+});
@@ -0,0 +1,273 @@
+import { PipelineStage } from 'mongoose';
+import Order from '../models/OrderModel';
+import Product from '../models/ProductModel';
+import { roundMoney } from './coupons';
+import { ApiError } from './errors';
+
+export class AnalyticsError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'INVALID_FILTER' });
+    }
+}
+
+export const ANALYTICS_INTERVALS = ['day', 'week', 'month'] as const;
+export type AnalyticsInterval = typeof ANALYTICS_INTERVALS[number];
+
+const DEFAULT_RANGE_DAYS = 30;
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+// দিন/সপ্তাহ/মাসের সীমা কোন টাইমজোনে ধরা হবে
+const getAnalyticsTimezone = () => process.env.ANALYTICS_TIMEZONE || 'Asia/Dhaka';
+
+// পুরনো অর্ডারে grandTotal নেই, তখন totalAmount
+const ORDER_REVENUE = { $ifNull: ['$grandTotal', '$totalAmount'] };
+
+export interface DateRange {
+    from: Date;
+    to: Date;
+}
+
+// ?from=2024-01-01&to=2024-01-31 (শুধু তারিখ দিলে to দিনের শেষ পর্যন্ত); না দিলে শেষ ৩০ দিন
+export const parseDateRange = (query: Record<string, unknown>): DateRange => {
+    const parse = (value: unknown, name: string, endOfDay: boolean) => {
+        if (value === undefined || value === '') return null;
+        if (typeof value !== 'string') throw new AnalyticsError(`Invalid ${name} date.`);
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) throw new AnalyticsError(`Invalid ${name} date.`);
+        if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) date.setUTCHours(23, 59, 59, 999);
+        return date;
+    };
+    const to = parse(query.to, 'to', true) || new Date();
+    const from = parse(query.from, 'from', false) || new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+    if (from > to) throw new AnalyticsError('from must be before to.');
+    return { from, to };
+};
+
+export const parseInterval = (value: unknown): AnalyticsInterval => {
+    if (value === undefined) return 'day';
+    if (!ANALYTICS_INTERVALS.includes(value as AnalyticsInterval)) {
+        throw new AnalyticsError(`interval must be one of: ${ANALYTICS_INTERVALS.join(', ')}.`);
+    }
+    return value as AnalyticsInterval;
+};
+
+export const parseLimit = (value: unknown, fallback = 10, max = 100) => {
+    const limit = Number(value);
+    return Number.isInteger(limit) && limit > 0 ? Math.min(limit, max) : fallback;
+};
+
+// বাতিল অর্ডার কোনো হিসাবেই ধরা হয় না
+const matchOrders = (range: DateRange): PipelineStage.Match => ({
+    $match: { createdAt: { $gte: range.from, $lte: range.to }, orderStatus: { $ne: 'cancelled' } },
+});
+
+// মোট রেভিনিউ, অর্ডার সংখ্যা, গড় অর্ডার মূল্য (AOV), বিক্রি হওয়া আইটেম
+export const getSalesSummary = async (range: DateRange) => {
+    const [result] = await Order.aggregate([
+        matchOrders(range),
+        {
+            $group: {
+                _id: null,
+                revenue: { $sum: ORDER_REVENUE },
+                orders: { $sum: 1 },
+                itemsSold: { $sum: { $sum: '$items.quantity' } },
+                discount: { $sum: { $ifNull: ['$discount', 0] } },
+                shippingFees: { $sum: { $ifNull: ['$shippingFee', 0] } },
+                tax: { $sum: { $ifNull: ['$tax', 0] } },
+            },
+        },
+    ]);
+    const summary = result || { revenue: 0, orders: 0, itemsSold: 0, discount: 0, shippingFees: 0, tax: 0 };
+    return {
+        from: range.from,
+        to: range.to,
+        revenue: roundMoney(summary.revenue),
+        orders: summary.orders,
+        averageOrderValue: summary.orders ? roundMoney(summary.revenue / summary.orders) : 0,
+        itemsSold: summary.itemsSold,
+        discount: roundMoney(summary.discount),
+        shippingFees: roundMoney(summary.shippingFees),
+        tax: roundMoney(summary.tax),
+    };
+};
+
+// দিন/সপ্তাহ/মাস অনুযায়ী রেভিনিউ আর অর্ডার সংখ্যা (যে পিরিয়ডে অর্ডার নেই সেটি আসে না)
+export const getSalesTimeline = async (range: DateRange, interval: AnalyticsInterval) => {
+    const timezone = getAnalyticsTimezone();
+    const rows = await Order.aggregate([
+        matchOrders(range),
+        {
+            $group: {
+                _id: {
+                    $dateTrunc: {
+                        date: '$createdAt',
+                        unit: interval,
+                        timezone,
+                        ...(interval === 'week' ? { startOfWeek: 'saturday' } : {}), // বাংলাদেশে সপ্তাহ শুরু শনিবার
+                    },
+                },
+                revenue: { $sum: ORDER_REVENUE },
+                orders: { $sum: 1 },
+            },
+        },
+        { $sort: { _id: 1 } },
+    ]);
+    return rows.map(row => ({
+        period: row._id,
+        revenue: roundMoney(row.revenue),
+        orders: row.orders,
+        averageOrderValue: row.orders ? roundMoney(row.revenue / row.orders) : 0,
+    }));
+};
+
+// Order.items থেকে সবচেয়ে বেশি বিক্রি হওয়া প্রোডাক্ট (পরিমাণ অনুযায়ী)
+export const getTopProducts = async (range: DateRange, limit: number) => {
+    const rows = await Order.aggregate([
+        matchOrders(range),
+        { $unwind: '$items' },
+        {
+            $group: {
+                _id: '$items.product',
+                quantity: { $sum: '$items.quantity' },
+                revenue: { $sum: { $multiply: ['$items.price', '$items.quantity'] } },
+                orders: { $sum: 1 },
+            },
+        },
+        { $sort: { quantity: -1, revenue: -1 } },
+        { $limit: limit },
+        { $lookup: { from: 'products', localField: '_id', foreignField: '_id', as: 'product' } },
+        { $unwind: { path: '$product', preserveNullAndEmptyArrays: true } },
+    ]);
+    return rows.map(row => ({
+        product: row._id,
+        name: row.product?.name ?? null, // মুছে যাওয়া প্রোডাক্টে null
+        slug: row.product?.slug ?? null,
+        quantity: row.quantity,
+        revenue: roundMoney(row.revenue),
+        orders: row.orders,
+    }));
+};
+
+// প্রোডাক্টের বর্তমান ক্যাটাগরি অনুযায়ী বিক্রি
+export const getTopCategories = async (range: DateRange, limit: number) => {
+    const rows = await Order.aggregate([
+        matchOrders(range),
+        { $unwind: '$items' },
+        { $lookup: { from: 'products', localField: 'items.product', foreignField: '_id', as: 'product' } },
+        { $unwind: '$product' },
+        {
+            $group: {
+                _id: '$product.category',
+                quantity: { $sum: '$items.quantity' },
+                revenue: { $sum: { $multiply: ['$items.price', '$items.quantity'] } },
+                orders: { $addToSet: '$_id' },
+            },
+        },
+        { $sort: { revenue: -1 } },
+        { $limit: limit },
+        { $lookup: { from: 'categories', localField: '_id', foreignField: '_id', as: 'category' } },
+        { $unwind: { path: '$category', preserveNullAndEmptyArrays: true } },
+    ]);
+    return rows.map(row => ({
+        category: row._id,
+        name: row.category?.name ?? null,
+        slug: row.category?.slug ?? null,
+        quantity: row.quantity,
+        revenue: roundMoney(row.revenue),
+        orders: row.orders.length,
+    }));
+};
+
+// orderStatus আর paymentStatus অনুযায়ী অর্ডার সংখ্যা; বাতিল অর্ডার আলাদা করে শুধু সংখ্যায় দেখানো হয়
+export const getStatusFunnel = async (range: DateRange) => {
+    const [result] = await Order.aggregate([
+        { $match: { createdAt: { $gte: range.from, $lte: range.to } } },
+        {
+            $facet: {
+                orderStatus: [
+                    { $match: { orderStatus: { $ne: 'cancelled' } } },
+                    { $group: { _id: '$orderStatus', count: { $sum: 1 } } },
+                ],
+                paymentStatus: [
+                    { $match: { orderStatus: { $ne: 'cancelled' } } },
+                    { $group: { _id: '$paymentStatus', count: { $sum: 1 } } },
+                ],
+                cancelled: [{ $match: { orderStatus: 'cancelled' } }, { $count: 'count' }],
+            },
+        },
+    ]);
+    const toCounts = (rows: { _id: string; count: number }[]) => Object.fromEntries(rows.map(row => [row._id, row.count]));
+    return {
+        orderStatus: toCounts(result.orderStatus),
+        paymentStatus: toCounts(result.paymentStatus),
+        cancelled: result.cancelled[0]?.count || 0,
+    };
+};
+
+// রেঞ্জের মধ্যে অর্ডার করা কাস্টমারদের মধ্যে কারা প্রথমবার (প্রথম অর্ডার এই রেঞ্জে) আর কারা আগেও কিনেছে
+export const getCustomerBreakdown = async (range: DateRange) => {
+    const rows = await Order.aggregate([
+        matchOrders(range),
+        { $group: { _id: '$user', orders: { $sum: 1 }, revenue: { $sum: ORDER_REVENUE } } },
+        {
+            $lookup: {
+                from: 'orders',
+                let: { user: '$_id' },
+                pipeline: [
+                    {
+                        $match: {
+                            $expr: { $eq: ['$user', '$$user'] },
+                            orderStatus: { $ne: 'cancelled' },
+                            createdAt: { $lt: range.from },
+                        },
+                    },
+                    { $limit: 1 },
+                    { $project: { _id: 1 } },
+                ],
+                as: 'previousOrders',
+            },
+        },
+        {
+            $group: {
+                _id: { $cond: [{ $gt: [{ $size: '$previousOrders' }, 0] }, 'returning', 'new'] },
+                customers: { $sum: 1 },
+                orders: { $sum: '$orders' },
+                revenue: { $sum: '$revenue' },
+            },
+        },
+    ]);
+    const empty = { customers: 0, orders: 0, revenue: 0 };
+    const pick = (key: 'new' | 'returning') => {
+        const row = rows.find(r => r._id === key);
+        return row ? { customers: row.customers, orders: row.orders, revenue: roundMoney(row.revenue) } : empty;
+    };
+    return { new: pick('new'), returning: pick('returning') };
+};
+
+// অ্যাক্টিভ প্রোডাক্ট যেগুলোর স্টক threshold বা তার নিচে; ভ্যারিয়েন্ট থাকলে কম থাকা ভ্যারিয়েন্টগুলোও
+export const getLowStockProducts = async (thresholdInput: unknown, limit: number) => {
+    const parsed = Number(thresholdInput);
+    const threshold = thresholdInput !== undefined && Number.isInteger(parsed) && parsed >= 0 ? parsed : DEFAULT_LOW_STOCK_THRESHOLD;
+    const products = await Product.find({
+        status: true,
+        $or: [{ stock: { $lte: threshold } }, { 'variants.stock': { $lte: threshold } }],
+    })
+        .select('name slug stock images variants category')
+        .sort({ stock: 1 })
+        .limit(limit);
+
+    return {
+        threshold,
+        products: products.map(product => ({
+            _id: product._id,
+            name: product.name,
+            slug: product.slug,
+            stock: product.stock,
+            image: product.images[0],
+            category: product.category,
+            variants: product.variants
+                .filter(variant => variant.stock <= threshold)
+                .map(variant => ({ _id: variant._id, sku: variant.sku, label: variant.label, stock: variant.stock })),
+        })),
+    };
+};
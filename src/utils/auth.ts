@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import jwt, { JwtHeader } from 'jsonwebtoken';
+import { IUser } from '../models/UserModel';
+import RefreshToken from '../models/RefreshTokenModel';
+import { ApiError } from './errors';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// ================== PASSWORD HASHING ==================
+// ফরম্যাট: scrypt$<salt>$<hash>
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const derived = await scrypt(password, salt, 64);
+    return `scrypt$${salt}$${derived.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const derived = await scrypt(password, salt, 64);
+    const expected = Buffer.from(hash, 'hex');
+    return expected.length === derived.length && crypto.timingSafeEqual(expected, derived);
+};
+
+// ================== ID TOKEN VERIFIER ==================
+export interface VerifiedIdentity {
+    uid: string;
+    email?: string;
+}
+
+export interface IdTokenVerifier {
+    verify(idToken: string): Promise<VerifiedIdentity>;
+}
+
+const FIREBASE_CERTS_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+// Firebase ID token (RS256) যাচাই করে, Google এর public cert ক্যাশ রেখে
+export class FirebaseIdTokenVerifier implements IdTokenVerifier {
+    private certs: Record<string, string> = {};
+    private certsExpireAt = 0;
+
+    constructor(private projectId: string) {}
+
+    private async getCerts(): Promise<Record<string, string>> {
+        if (Date.now() < this.certsExpireAt) return this.certs;
+        const response = await fetch(FIREBASE_CERTS_URL);
+        if (!response.ok) throw new Error(`Failed to fetch Firebase certs: ${response.status}`);
+        const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+        this.certs = await response.json() as Record<string, string>;
+        this.certsExpireAt = Date.now() + (maxAge ? Number(maxAge[1]) * 1000 : 60 * 60 * 1000);
+        return this.certs;
+    }
+
+    async verify(idToken: string): Promise<VerifiedIdentity> {
+        const decodedHeader = jwt.decode(idToken, { complete: true });
+        const header = decodedHeader?.header as JwtHeader | undefined;
+        if (!header?.kid) throw new Error('ID token has no key id');
+        const cert = (await this.getCerts())[header.kid];
+        if (!cert) throw new Error('ID token signed with unknown key');
+
+        const payload = jwt.verify(idToken, cert, {
+            algorithms: ['RS256'],
+            audience: this.projectId,
+            issuer: `https://securetoken.google.com/${this.projectId}`,
+        }) as jwt.JwtPayload;
+        if (!payload.sub) throw new Error('ID token has no subject');
+        return { uid: payload.sub, email: payload.email };
+    }
+}
+
+// undefined = এখনো তৈরি হয়নি (dotenv লোড হওয়ার পরে প্রথম ব্যবহারে env থেকে তৈরি হবে)
+let idTokenVerifier: IdTokenVerifier | null | undefined;
+
+// অন্য কোনো প্রোভাইডার (বা টেস্টের জন্য ফেক) ব্যবহার করতে চাইলে এটি দিয়ে বদলানো যাবে
+export const setIdTokenVerifier = (verifier: IdTokenVerifier | null) => {
+    idTokenVerifier = verifier;
+};
+
+export const getIdTokenVerifier = () => {
+    if (idTokenVerifier === undefined) {
+        const projectId = process.env.FIREBASE_PROJECT_ID;
+        idTokenVerifier = projectId ? new FirebaseIdTokenVerifier(projectId) : null;
+    }
+    return idTokenVerifier;
+};
+
+// ================== ACCESS & REFRESH TOKENS ==================
+const ACCESS_TOKEN_TTL = '1h';
+const getRefreshTokenTtlDays = () => Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export class AuthError extends ApiError {
+    constructor(message: string) {
+        super(401, message, { code: 'AUTH_FAILED' });
+    }
+}
+
+export const signAccessToken = (user: IUser): string => {
+    const secret = process.env.ACCESS_TOKEN_SECRET;
+    if (!secret) throw new Error('JWT secret not configured!');
+    return jwt.sign(
+        { email: user.email, uid: user.uid, role: user.role },
+        secret,
+        { subject: String(user._id), expiresIn: ACCESS_TOKEN_TTL }
+    );
+};
+
+const createRefreshToken = async (user: IUser, family: string): Promise<string> => {
+    const token = crypto.randomBytes(48).toString('base64url');
+    await RefreshToken.create({
+        user: user._id,
+        tokenHash: hashToken(token),
+        family,
+        expiresAt: new Date(Date.now() + getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000),
+    });
+    return token;
+};
+
+export const issueTokens = async (user: IUser) => {
+    const refreshToken = await createRefreshToken(user, crypto.randomUUID());
+    return { token: signAccessToken(user), refreshToken };
+};
+
+// পুরনো রিফ্রেশ টোকেন বাতিল করে নতুন জোড়া দেয়। বাতিল হওয়া টোকেন আবার এলে
+// ধরে নেওয়া হয় সেটা চুরি হয়েছে, তাই পুরো family revoke করা হয়।
+export const rotateRefreshToken = async (token: string, loadUser: (id: string) => Promise<IUser | null>) => {
+    const existing = await RefreshToken.findOne({ tokenHash: hashToken(token) });
+    if (!existing || existing.expiresAt.getTime() <= Date.now()) throw new AuthError('Invalid refresh token.');
+
+    if (existing.revokedAt) {
+        await RefreshToken.updateMany({ family: existing.family, revokedAt: null }, { revokedAt: new Date() });
+        throw new AuthError('Refresh token reuse detected.');
+    }
+
+    const user = await loadUser(existing.user.toString());
+    if (!user) throw new AuthError('Invalid refresh token.');
+
+    const refreshToken = await createRefreshToken(user, existing.family);
+    // একই টোকেন দিয়ে একসাথে দুটি রিকোয়েস্ট এলে শুধু একটি জিতবে
+    const claimed = await RefreshToken.findOneAndUpdate(
+        { _id: existing._id, revokedAt: null },
+        { revokedAt: new Date(), replacedBy: hashToken(refreshToken) }
+    );
+    if (!claimed) {
+        await RefreshToken.updateMany({ family: existing.family, revokedAt: null }, { revokedAt: new Date() });
+        throw new AuthError('Refresh token reuse detected.');
+    }
+
+    return { token: signAccessToken(user), refreshToken };
+};
+
+export const revokeRefreshToken = async (token: string) => {
+    const existing = await RefreshToken.findOne({ tokenHash: hashToken(token) });
+    if (!existing) return null;
+    await RefreshToken.updateMany({ family: existing.family, revokedAt: null }, { revokedAt: new Date() });
+    return existing;
+};
+
+export const revokeAllRefreshTokens = async (userId: string) => {
+    await RefreshToken.updateMany({ user: userId, revokedAt: null }, { revokedAt: new Date() });
+};
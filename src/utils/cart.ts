@@ -0,0 +1,222 @@
+import mongoose from 'mongoose';
+import Product, { IProduct } from '../models/ProductModel';
+import { roundMoney } from './coupons';
+import { ApiError } from './errors';
+import { getSellableUnit, lineKey, resolveVariant, VariantError } from './variants';
+
+// status/code: রুট থেকে যে HTTP স্ট্যাটাস আর এরর কোড ফেরত যাবে
+export class CartError extends ApiError {
+    constructor(message: string, status = 400, code = 'CART_INVALID') {
+        super(status, message, { code });
+    }
+}
+
+export const CART_ISSUES = ['product_removed', 'variant_removed', 'inactive', 'out_of_stock', 'insufficient_stock', 'price_changed'] as const;
+export type CartIssueCode = typeof CART_ISSUES[number];
+
+// এই সমস্যাগুলো থাকলে লাইনটি কেনা যাবে না, সাবটোটালেও ধরা হয় না
+const BLOCKING_ISSUES: CartIssueCode[] = ['product_removed', 'variant_removed', 'inactive', 'out_of_stock'];
+const isPurchasable = (line: { issues: CartLineIssue[] }) => !line.issues.some(issue => BLOCKING_ISSUES.includes(issue.code));
+
+export interface CartItemInput {
+    product: unknown;
+    variant?: unknown;
+    quantity: number;
+    price?: number;
+}
+
+export interface CartLineIssue {
+    code: CartIssueCode;
+    message: string;
+}
+
+export interface CartLineSummary {
+    product: IProduct | null;
+    productId: string;
+    variant: string | null;
+    variantLabel?: string;
+    sku?: string;
+    quantity: number;
+    unitPrice: number | null;
+    previousPrice: number | null;
+    lineTotal: number;
+    available: number;
+    issues: CartLineIssue[];
+}
+
+export interface CartSummary {
+    items: CartLineSummary[];
+    itemCount: number;
+    subtotal: number;
+    hasIssues: boolean;
+}
+
+// পপুলেট করা হোক বা না হোক, কার্ট লাইনের প্রোডাক্ট id
+const productIdOf = (product: unknown) =>
+    String(product && typeof product === 'object' && '_id' in product ? (product as { _id: unknown })._id : product);
+
+// "2", 2 দুটোই চলবে; NaN, ভগ্নাংশ বা নেগেটিভ চলবে না (০ মানে লাইন মুছে ফেলা)
+export const parseCartQuantity = (raw: unknown): number => {
+    const quantity = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 0) {
+        throw new CartError('Quantity must be a whole number (0 or more).', 400, 'INVALID_QUANTITY');
+    }
+    return quantity;
+};
+
+// কার্টে যোগ/আপডেটের আগে প্রোডাক্ট আর ভ্যারিয়েন্ট যাচাই
+export const validateCartLine = (product: IProduct | null, variantId: unknown) => {
+    if (!product) throw new CartError('Product not found.', 404, 'PRODUCT_NOT_FOUND');
+    if (!product.status) throw new CartError('This product is currently unavailable.', 409, 'PRODUCT_UNAVAILABLE');
+
+    let variant;
+    try {
+        variant = resolveVariant(product, variantId);
+    } catch (error) {
+        if (error instanceof VariantError) throw new CartError(error.message, 400, error.code);
+        throw error;
+    }
+    return { variant, unit: getSellableUnit(product, variant) };
+};
+
+// quantity: লাইনের মোট পরিমাণ (আগে থেকে কার্টে থাকা সহ)
+export const assertCartStock = (unit: { stock: number }, quantity: number) => {
+    if (unit.stock <= 0) throw new CartError('This product is out of stock.', 409, 'OUT_OF_STOCK');
+    if (quantity > unit.stock) throw new CartError(`Only ${unit.stock} left in stock.`, 409, 'INSUFFICIENT_STOCK');
+};
+
+// কার্টের প্রতিটি লাইনের বর্তমান দাম/স্টক দেখে লাইন টোটাল, সাবটোটাল আর সতর্কবার্তা
+export const summarizeCart = async (cart: CartItemInput[]): Promise<CartSummary> => {
+    const productIds = [...new Set(cart.map(item => productIdOf(item.product)))];
+    const products = await Product.find({ _id: { $in: productIds } });
+    const productMap = new Map(products.map(product => [String(product._id), product]));
+
+    const items = cart.map((item): CartLineSummary => {
+        const productId = productIdOf(item.product);
+        const product = productMap.get(productId) || null;
+        const line: CartLineSummary = {
+            product,
+            productId,
+            variant: item.variant ? String(item.variant) : null,
+            quantity: item.quantity,
+            unitPrice: null,
+            previousPrice: item.price ?? null,
+            lineTotal: 0,
+            available: 0,
+            issues: [],
+        };
+
+        if (!product) {
+            line.issues.push({ code: 'product_removed', message: 'This product is no longer available.' });
+            return line;
+        }
+
+        let variant;
+        try {
+            variant = resolveVariant(product, item.variant);
+        } catch (error) {
+            if (!(error instanceof VariantError)) throw error;
+            line.issues.push({ code: 'variant_removed', message: 'The selected option is no longer available.' });
+            return line;
+        }
+
+        const unit = getSellableUnit(product, variant);
+        line.variant = variant ? String(variant._id) : null;
+        line.variantLabel = unit.label;
+        line.sku = unit.sku;
+        line.unitPrice = unit.price;
+        line.available = Math.max(unit.stock, 0);
+
+        if (!product.status) {
+            line.issues.push({ code: 'inactive', message: 'This product is currently unavailable.' });
+        } else if (unit.stock <= 0) {
+            line.issues.push({ code: 'out_of_stock', message: 'This product is out of stock.' });
+        } else if (item.quantity > unit.stock) {
+            line.issues.push({ code: 'insufficient_stock', message: `Only ${unit.stock} left in stock.` });
+        }
+        if (item.price !== undefined && item.price !== null && item.price !== unit.price) {
+            line.issues.push({
+                code: 'price_changed',
+                message: `Price changed from ${item.price} to ${unit.price}.`,
+            });
+        }
+
+        if (isPurchasable(line)) {
+            line.lineTotal = roundMoney(unit.price * item.quantity);
+        }
+        return line;
+    });
+
+    return {
+        items,
+        itemCount: items.reduce((total, line) => total + (isPurchasable(line) ? line.quantity : 0), 0),
+        subtotal: roundMoney(items.reduce((total, line) => total + line.lineTotal, 0)),
+        hasIssues: items.some(line => line.issues.length > 0),
+    };
+};
+
+// ইউজার সতর্কবার্তা দেখে "আপডেট" করলে: কেনা যায় না এমন লাইন বাদ, পরিমাণ স্টকে নামানো, দাম বর্তমান দামে
+export const resolveCartIssues = (summary: CartSummary) =>
+    summary.items
+        .filter(isPurchasable)
+        .map(line => ({
+            product: line.productId,
+            variant: line.variant,
+            quantity: Math.min(line.quantity, line.available),
+            price: line.unitPrice!,
+        }));
+
+// একই প্রোডাক্ট + ভ্যারিয়েন্টের লাইন খোঁজা
+export const findCartLineIndex = (cart: CartItemInput[], productId: unknown, variantId: unknown) =>
+    cart.findIndex(item => lineKey(productIdOf(item.product), item.variant) === lineKey(productIdOf(productId), variantId));
+
+export interface CartUpdateInput {
+    productId: unknown;
+    variantId?: unknown;
+    quantity?: unknown; // OPTIONAL: দিলে সেটাই সেট হবে (০ দিলে লাইন মুছে যাবে), না দিলে ১ করে বাড়বে
+}
+
+// ইউজার আর গেস্ট দুই কার্টেই একই নিয়মে যোগ/আপডেট; নতুন কার্ট অ্যারে ফেরত দেয়
+export const applyCartUpdate = async (cart: CartItemInput[], input: CartUpdateInput): Promise<CartItemInput[]> => {
+    const { productId, variantId } = input;
+    const quantity = input.quantity === undefined ? undefined : parseCartQuantity(input.quantity);
+    if (!mongoose.isValidObjectId(productId)) throw new CartError('Invalid product id.', 400, 'INVALID_ID');
+
+    if (quantity === 0) {
+        return cart.filter(item =>
+            productIdOf(item.product) !== String(productId) || (variantId && String(item.variant) !== String(variantId))
+        );
+    }
+
+    // ভ্যারিয়েন্ট থাকা প্রোডাক্টে variantId না দিলে ডিফল্ট ভ্যারিয়েন্ট যোগ হয়
+    const product = await Product.findById(productId);
+    const { variant, unit } = validateCartLine(product, variantId);
+    const index = findCartLineIndex(cart, productId, variant?._id);
+    const nextQuantity = quantity ?? (index > -1 ? cart[index].quantity + 1 : 1);
+    assertCartStock(unit, nextQuantity);
+
+    const line = { product: product!._id, variant: variant?._id || null, quantity: nextQuantity, price: unit.price };
+    return index > -1 ? cart.map((item, i) => (i === index ? line : item)) : [...cart, line];
+};
+
+// গেস্ট কার্ট ইউজারের কার্টে মেশানো। একই লাইন দুই জায়গায় থাকলে বেশি পরিমাণটা থাকে (যোগ করলে
+// একই জিনিস দুবার গোনা হতে পারে), সবসময় স্টকের মধ্যে। কেনা যায় না এমন গেস্ট লাইন বাদ পড়ে।
+export const mergeCarts = async (userCart: CartItemInput[], guestCart: CartItemInput[]): Promise<CartItemInput[]> => {
+    const guestSummary = await summarizeCart(guestCart);
+    const merged = [...userCart];
+    for (const line of guestSummary.items) {
+        if (!isPurchasable(line)) continue;
+        const index = findCartLineIndex(merged, line.productId, line.variant);
+        const existing = index > -1 ? merged[index] : null;
+        const mergedLine = {
+            product: line.productId,
+            variant: line.variant,
+            quantity: Math.min(Math.max(line.quantity, existing?.quantity || 0), line.available),
+            // দামের তুলনা আগে দেখা দামের সাথেই থাকবে
+            price: existing?.price ?? line.previousPrice ?? line.unitPrice!,
+        };
+        if (existing) merged[index] = mergedLine;
+        else merged.push(mergedLine);
+    }
+    return merged;
+};
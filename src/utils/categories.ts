@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import Category, { ICategory } from '../models/CategoryModel';
+import { ApiError } from './errors';
+
+// একটি ক্যাটাগরি আর তার নিচের সব সাব-ক্যাটাগরির আইডি (BFS করে)
+export const getCategoryWithDescendantIds = async (categoryId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId[]> => {
+    const ids: mongoose.Types.ObjectId[] = [categoryId];
+    const seen = new Set<string>([categoryId.toString()]);
+    let frontier = [categoryId];
+
+    while (frontier.length > 0) {
+        const children = await Category.find({ parentId: { $in: frontier } }).select('_id').lean();
+        frontier = [];
+        for (const child of children) {
+            const childId = child._id as mongoose.Types.ObjectId;
+            if (seen.has(childId.toString())) continue;
+            seen.add(childId.toString());
+            ids.push(childId);
+            frontier.push(childId);
+        }
+    }
+    return ids;
+};
+
+// আইডি বা স্লাগ, যেকোনোটি দিয়ে ক্যাটাগরি খোঁজা
+export const findCategoryByIdOrSlug = (value: string) =>
+    mongoose.isValidObjectId(value) ? Category.findById(value) : Category.findOne({ slug: value });
+
+export class CategoryHierarchyError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'CATEGORY_HIERARCHY_INVALID' });
+    }
+}
+
+// নতুন parent বৈধ কিনা: অস্তিত্ব আছে, আর নিজে বা নিজের কোনো সাব-ক্যাটাগরি নয় (cycle)
+export const validateCategoryParent = async (parentId: unknown, categoryId?: mongoose.Types.ObjectId) => {
+    if (parentId === null || parentId === undefined || parentId === '') return null;
+    if (typeof parentId !== 'string' || !mongoose.isValidObjectId(parentId)) throw new CategoryHierarchyError('Invalid parent category.');
+
+    const parent = await Category.findById(parentId).select('_id');
+    if (!parent) throw new CategoryHierarchyError('Parent category not found.');
+
+    if (categoryId) {
+        const subtree = await getCategoryWithDescendantIds(categoryId);
+        if (subtree.some(id => id.equals(parent._id as mongoose.Types.ObjectId))) {
+            throw new CategoryHierarchyError('A category cannot be moved under itself or one of its subcategories.');
+        }
+    }
+    return parent._id as mongoose.Types.ObjectId;
+};
+
+// রুট থেকে শুরু করে বর্তমান ক্যাটাগরি পর্যন্ত ব্রেডক্রাম্ব
+export const getCategoryBreadcrumbs = async (category: ICategory) => {
+    const breadcrumbs = [{ _id: category._id, name: category.name, slug: category.slug }];
+    const seen = new Set<string>([String(category._id)]);
+    let parentId = category.parentId;
+
+    while (parentId && !seen.has(String(parentId))) {
+        seen.add(String(parentId));
+        const parent = await Category.findById(parentId).select('name slug parentId');
+        if (!parent) break;
+        breadcrumbs.unshift({ _id: parent._id, name: parent.name, slug: parent.slug });
+        parentId = parent.parentId;
+    }
+    return breadcrumbs;
+};
+
+export interface CategoryTreeNode {
+    _id: string;
+    name: string;
+    slug: string;
+    image?: string | null;
+    isNav: boolean;
+    productCount: number; // শুধু এই ক্যাটাগরির
+    totalProductCount: number; // সাব-ক্যাটাগরি সহ
+    children: CategoryTreeNode[];
+}
+
+// ফ্ল্যাট লিস্ট থেকে nested ট্রি (প্রোডাক্ট সংখ্যা সহ)
+export const buildCategoryTree = (
+    categories: { _id: unknown; name: string; slug: string; image?: string | null; isNav: boolean; parentId: unknown }[],
+    productCounts: Map<string, number>
+): CategoryTreeNode[] => {
+    const nodes = new Map<string, CategoryTreeNode>();
+    for (const category of categories) {
+        const id = String(category._id);
+        nodes.set(id, {
+            _id: id,
+            name: category.name,
+            slug: category.slug,
+            image: category.image,
+            isNav: category.isNav,
+            productCount: productCounts.get(id) || 0,
+            totalProductCount: 0,
+            children: [],
+        });
+    }
+
+    const roots: CategoryTreeNode[] = [];
+    for (const category of categories) {
+        const node = nodes.get(String(category._id))!;
+        const parent = category.parentId ? nodes.get(String(category.parentId)) : undefined;
+        // parent মুছে গেলে (বা পাওয়া না গেলে) রুটে দেখানো হবে
+        if (parent) parent.children.push(node);
+        else roots.push(node);
+    }
+
+    const sumCounts = (node: CategoryTreeNode): number => {
+        node.totalProductCount = node.productCount + node.children.reduce((total, child) => total + sumCounts(child), 0);
+        return node.totalProductCount;
+    };
+    roots.forEach(sumCounts);
+    return roots;
+};
@@ -0,0 +1,151 @@
+import mongoose from 'mongoose';
+import DeliveryZone, { IDeliveryZone } from '../models/DeliveryZoneModel';
+import TaxRule from '../models/TaxRuleModel';
+import { IOrderCoupon } from '../models/OrderModel';
+import { getCategoryWithDescendantIds } from './categories';
+import { IProduct } from '../models/ProductModel';
+import { PricedLine, roundMoney } from './coupons';
+import { getSellableUnit, lineKey, resolveVariant, VariantError } from './variants';
+import { ApiError } from './errors';
+
+export class CheckoutError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'CHECKOUT_INVALID' });
+    }
+}
+
+export interface ShippingAddressInput {
+    city?: string;
+    postalCode?: string;
+}
+
+export interface CheckoutTotals {
+    subtotal: number;
+    discount: number;
+    shippingFee: number;
+    tax: number;
+    grandTotal: number;
+    deliveryZone: { _id: unknown; name: string; estimatedDays?: string } | null;
+    freeShippingApplied: boolean;
+    taxBreakdown: { name: string; rate: number; taxableAmount: number; amount: number }[];
+}
+
+// পপুলেট করা কার্ট থেকে দামসহ লাইন (দাম: discount || regular, ভ্যারিয়েন্ট থাকলে তার)।
+// মুছে যাওয়া প্রোডাক্ট বা ভ্যারিয়েন্টের লাইন বাদ পড়ে, তাই কলার লাইন সংখ্যা মিলিয়ে দেখতে পারে।
+export const buildPricedLines = (cart: { product: unknown; variant?: unknown; quantity: number }[]): PricedLine[] => {
+    const lines: PricedLine[] = [];
+    for (const item of cart) {
+        if (!item.product || typeof item.product !== 'object') continue;
+        const product = item.product as IProduct;
+        let variant;
+        try {
+            variant = resolveVariant(product, item.variant);
+        } catch (error) {
+            if (error instanceof VariantError) continue;
+            throw error;
+        }
+        const unit = getSellableUnit(product, variant);
+        lines.push({
+            product: product._id,
+            variant: variant?._id || null,
+            variantLabel: unit.label,
+            sku: unit.sku,
+            category: product.category,
+            price: unit.price,
+            quantity: item.quantity,
+            weight: unit.weight,
+        });
+    }
+    return lines;
+};
+
+// প্রথমে শহরের নাম, তারপর পোস্টাল কোডের শুরু, শেষে ডিফল্ট জোন
+export const resolveDeliveryZone = async (address: ShippingAddressInput): Promise<IDeliveryZone | null> => {
+    const zones = await DeliveryZone.find({ isActive: true });
+    const city = address.city?.trim().toLowerCase();
+    const postalCode = address.postalCode?.trim();
+
+    return (city && zones.find(zone => zone.cities.includes(city)))
+        || (postalCode && zones.find(zone => zone.postalCodePrefixes.some(prefix => postalCode.startsWith(prefix))))
+        || zones.find(zone => zone.isDefault)
+        || null;
+};
+
+// কোনো ডেলিভারি জোন তৈরি না থাকলে (নতুন ডিপ্লয়মেন্ট) সব অর্ডারে এই ফি; জোন থাকলে ব্যবহার হয় না
+const getFallbackShippingFee = () => Number(process.env.DEFAULT_SHIPPING_FEE) || 0;
+
+export const calculateShippingFee = (zone: IDeliveryZone, lines: PricedLine[]) => {
+    switch (zone.feeType) {
+        case 'per_item':
+            return zone.baseFee + zone.perItemFee * lines.reduce((total, line) => total + line.quantity, 0);
+        case 'weight': {
+            // শুরু হওয়া প্রতিটি কেজি পুরো কেজি হিসেবে ধরা হয়
+            const totalKg = lines.reduce((total, line) => total + (line.weight || 0) * line.quantity, 0);
+            return zone.baseFee + zone.perKgFee * Math.ceil(totalKg);
+        }
+        default:
+            return zone.baseFee;
+    }
+};
+
+// কুপনের ছাড় বাদ দিয়ে যে অংশে VAT বসবে তার উপর ট্যাক্স
+const calculateTax = async (lines: PricedLine[], coupon?: IOrderCoupon | null) => {
+    const rules = await TaxRule.find({ isActive: true });
+    const lineDiscounts = new Map((coupon?.lines || []).map(line => [lineKey(line.product, line.variant), line.discount]));
+    const breakdown: CheckoutTotals['taxBreakdown'] = [];
+
+    for (const rule of rules) {
+        let categoryIds: Set<string> | null = null;
+        if (rule.applicableCategories.length > 0) {
+            categoryIds = new Set();
+            for (const categoryId of rule.applicableCategories) {
+                const subtree = await getCategoryWithDescendantIds(new mongoose.Types.ObjectId(String(categoryId)));
+                subtree.forEach(id => categoryIds!.add(id.toString()));
+            }
+        }
+        const taxableAmount = lines
+            .filter(line => !categoryIds || categoryIds.has(String(line.category)))
+            .reduce((total, line) => total + line.price * line.quantity - (lineDiscounts.get(lineKey(line.product, line.variant)) || 0), 0);
+        if (taxableAmount <= 0) continue;
+
+        breakdown.push({
+            name: rule.name,
+            rate: rule.rate,
+            taxableAmount: roundMoney(taxableAmount),
+            amount: roundMoney((taxableAmount * rule.rate) / 100),
+        });
+    }
+    return breakdown;
+};
+
+// চেকআউট কোট আর অর্ডার, দুই জায়গাতেই একই হিসাব
+export const calculateCheckoutTotals = async (
+    lines: PricedLine[],
+    shippingAddress: ShippingAddressInput | undefined,
+    coupon?: IOrderCoupon | null
+): Promise<CheckoutTotals> => {
+    if (!shippingAddress?.city && !shippingAddress?.postalCode) {
+        throw new CheckoutError('Shipping address with city or postal code is required.');
+    }
+    const zone = await resolveDeliveryZone(shippingAddress);
+    // জোন আছে কিন্তু কোনোটাই মেলেনি তখনই শুধু ডেলিভারি নেই
+    if (!zone && await DeliveryZone.exists({ isActive: true })) throw new CheckoutError('Sorry, we do not deliver to this area yet.');
+
+    const subtotal = roundMoney(lines.reduce((total, line) => total + line.price * line.quantity, 0));
+    const discount = coupon?.discount || 0;
+    const freeShippingApplied = zone?.freeShippingThreshold != null && subtotal - discount >= zone.freeShippingThreshold;
+    const shippingFee = freeShippingApplied ? 0 : roundMoney(zone ? calculateShippingFee(zone, lines) : getFallbackShippingFee());
+    const taxBreakdown = await calculateTax(lines, coupon);
+    const tax = roundMoney(taxBreakdown.reduce((total, entry) => total + entry.amount, 0));
+
+    return {
+        subtotal,
+        discount,
+        shippingFee,
+        tax,
+        grandTotal: roundMoney(subtotal - discount + shippingFee + tax),
+        deliveryZone: zone ? { _id: zone._id, name: zone.name, estimatedDays: zone.estimatedDays } : null,
+        freeShippingApplied,
+        taxBreakdown,
+    };
+};
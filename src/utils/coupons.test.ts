@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+import Coupon from '../models/CouponModel';
+import CouponUsage from '../models/CouponUsageModel';
+import { CouponError, redeemCoupon } from './coupons';
+
+const coupon = (perUserLimit: number | null = 1) => ({ _id: new mongoose.Types.ObjectId(), perUserLimit } as any);
+const userId = new mongoose.Types.ObjectId();
+
+describe('redeemCoupon', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('claims the total limit and the per-user limit', async () => {
+        const target = coupon(2);
+        const claim = jest.spyOn(Coupon, 'findOneAndUpdate').mockResolvedValue({ _id: target._id } as any);
+        const usage = jest.spyOn(CouponUsage, 'findOneAndUpdate').mockResolvedValue({} as any);
+
+        await redeemCoupon(target, userId);
+
+        expect(claim).toHaveBeenCalledWith(
+            expect.objectContaining({ _id: target._id, isActive: true }),
+            { $inc: { usedCount: 1 } }
+        );
+        expect(usage).toHaveBeenCalledWith(
+            { coupon: target._id, user: userId, count: { $lt: 2 } },
+            { $inc: { count: 1 } },
+            { upsert: true }
+        );
+    });
+
+    it('rejects when the total usage limit is reached or the coupon expired since it was checked', async () => {
+        const claim = jest.spyOn(Coupon, 'findOneAndUpdate').mockResolvedValue(null);
+        const usage = jest.spyOn(CouponUsage, 'findOneAndUpdate');
+
+        await expect(redeemCoupon(coupon(), userId)).rejects.toThrow('This coupon has expired or reached its usage limit.');
+        expect(usage).not.toHaveBeenCalled();
+        const filter = claim.mock.calls[0][0] as any;
+        expect(filter.$and).toEqual(expect.arrayContaining([
+            { $or: [{ startsAt: null }, { startsAt: { $lte: expect.any(Date) } }] },
+            { $or: [{ expiresAt: null }, { expiresAt: { $gt: expect.any(Date) } }] },
+        ]));
+    });
+
+    it('gives the total claim back when the user already used the coupon', async () => {
+        const target = coupon();
+        jest.spyOn(Coupon, 'findOneAndUpdate').mockResolvedValue({ _id: target._id } as any);
+        // লিমিট পূর্ণ: filter মেলে না, upsert duplicate key দেয়
+        jest.spyOn(CouponUsage, 'findOneAndUpdate').mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000 }));
+        const rollback = jest.spyOn(Coupon, 'updateOne').mockResolvedValue({} as any);
+
+        const result = redeemCoupon(target, userId);
+
+        await expect(result).rejects.toBeInstanceOf(CouponError);
+        await expect(result).rejects.toThrow('You have already used this coupon.');
+        expect(rollback).toHaveBeenCalledWith({ _id: target._id }, { $inc: { usedCount: -1 } });
+    });
+
+    it('rethrows unexpected errors after the rollback', async () => {
+        jest.spyOn(Coupon, 'findOneAndUpdate').mockResolvedValue({} as any);
+        jest.spyOn(CouponUsage, 'findOneAndUpdate').mockRejectedValue(new Error('connection lost'));
+        const rollback = jest.spyOn(Coupon, 'updateOne').mockResolvedValue({} as any);
+
+        await expect(redeemCoupon(coupon(null), userId)).rejects.toThrow('connection lost');
+        expect(rollback).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,134 @@
+import mongoose from 'mongoose';
+import Coupon, { ICoupon } from '../models/CouponModel';
+import CouponUsage from '../models/CouponUsageModel';
+import { IOrderCoupon } from '../models/OrderModel';
+import { getCategoryWithDescendantIds } from './categories';
+import { ApiError, isMongoErrorCode } from './errors';
+
+export class CouponError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'COUPON_INVALID' });
+    }
+}
+
+// কুপন হিসাবের জন্য কার্ট/অর্ডারের প্রতিটি লাইন
+export interface PricedLine {
+    product: unknown;
+    variant?: unknown;
+    variantLabel?: string;
+    sku?: string;
+    category: unknown;
+    price: number;
+    quantity: number;
+    weight?: number; // কেজি, ডেলিভারি চার্জের জন্য
+}
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+// কুপন কোন লাইনগুলোতে প্রযোজ্য (ক্যাটাগরি স্কোপ হলে সাব-ক্যাটাগরিও ধরা হয়)
+const getEligibleLines = async (coupon: ICoupon, lines: PricedLine[]) => {
+    if (coupon.applicableProducts.length === 0 && coupon.applicableCategories.length === 0) return lines;
+
+    const productIds = new Set(coupon.applicableProducts.map(String));
+    const categoryIds = new Set<string>();
+    for (const categoryId of coupon.applicableCategories) {
+        const subtree = await getCategoryWithDescendantIds(new mongoose.Types.ObjectId(String(categoryId)));
+        subtree.forEach(id => categoryIds.add(id.toString()));
+    }
+    return lines.filter(line => productIds.has(String(line.product)) || categoryIds.has(String(line.category)));
+};
+
+// কুপন যাচাই করে ছাড়ের হিসাব (এখনো redeem হয়নি) - preview আর checkout দুই জায়গাতেই ব্যবহার হয়
+export const evaluateCoupon = async (code: unknown, lines: PricedLine[], userId: unknown): Promise<{ coupon: ICoupon; breakdown: IOrderCoupon }> => {
+    if (typeof code !== 'string' || !code.trim()) throw new CouponError('Coupon code is required.');
+    const coupon = await Coupon.findOne({ code: code.trim().toUpperCase() });
+    if (!coupon || !coupon.isActive) throw new CouponError('Invalid coupon code.');
+
+    const now = new Date();
+    if (coupon.startsAt && coupon.startsAt > now) throw new CouponError('This coupon is not active yet.');
+    if (coupon.expiresAt && coupon.expiresAt <= now) throw new CouponError('This coupon has expired.');
+    if (coupon.usageLimit && coupon.usedCount >= coupon.usageLimit) throw new CouponError('This coupon has reached its usage limit.');
+
+    if (coupon.perUserLimit) {
+        const usage = await CouponUsage.findOne({ coupon: coupon._id, user: userId });
+        if (usage && usage.count >= coupon.perUserLimit) throw new CouponError('You have already used this coupon.');
+    }
+
+    const subtotal = lines.reduce((total, line) => total + line.price * line.quantity, 0);
+    if (subtotal < coupon.minOrderValue) {
+        throw new CouponError(`Minimum order value for this coupon is ${coupon.minOrderValue}.`);
+    }
+
+    const eligibleLines = await getEligibleLines(coupon, lines);
+    const eligibleSubtotal = eligibleLines.reduce((total, line) => total + line.price * line.quantity, 0);
+    if (eligibleSubtotal <= 0) throw new CouponError('This coupon does not apply to any item in your cart.');
+
+    let discount = coupon.type === 'percentage' ? (eligibleSubtotal * coupon.value) / 100 : coupon.value;
+    if (coupon.type === 'percentage' && coupon.maxDiscount) discount = Math.min(discount, coupon.maxDiscount);
+    discount = roundMoney(Math.min(discount, eligibleSubtotal));
+
+    // ছাড়টা লাইনগুলোর মধ্যে দামের অনুপাতে ভাগ করা (শেষ লাইনে বাকিটা, যাতে যোগফল মিলে যায়)
+    let allocated = 0;
+    const lineDiscounts = eligibleLines.map((line, index) => {
+        const share = index === eligibleLines.length - 1
+            ? roundMoney(discount - allocated)
+            : roundMoney((discount * line.price * line.quantity) / eligibleSubtotal);
+        allocated += share;
+        return {
+            product: line.product as IOrderCoupon['lines'][number]['product'],
+            variant: (line.variant || null) as IOrderCoupon['lines'][number]['variant'],
+            discount: share,
+        };
+    });
+
+    return {
+        coupon,
+        breakdown: {
+            coupon: coupon._id as IOrderCoupon['coupon'],
+            code: coupon.code,
+            type: coupon.type,
+            value: coupon.value,
+            eligibleSubtotal: roundMoney(eligibleSubtotal),
+            discount,
+            lines: lineDiscounts,
+        },
+    };
+};
+
+// অ্যাটমিক redeem: মোট লিমিট আর per-user লিমিট দুটোই শর্তসাপেক্ষ $inc দিয়ে।
+// evaluateCoupon এর পরে কুপন বন্ধ হলে বা মেয়াদ পেরোলে filter আর মিলবে না।
+export const redeemCoupon = async (coupon: ICoupon, userId: unknown) => {
+    const now = new Date();
+    const claimed = await Coupon.findOneAndUpdate(
+        {
+            _id: coupon._id,
+            isActive: true,
+            $and: [
+                { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+                { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+                { $or: [{ usageLimit: null }, { $expr: { $lt: ['$usedCount', '$usageLimit'] } }] },
+            ],
+        },
+        { $inc: { usedCount: 1 } }
+    );
+    if (!claimed) throw new CouponError('This coupon has expired or reached its usage limit.');
+
+    try {
+        // লিমিট পূর্ণ হলে filter মিলবে না, upsert নতুন ডক বানাতে গিয়ে duplicate key দেবে
+        await CouponUsage.findOneAndUpdate(
+            { coupon: coupon._id, user: userId, ...(coupon.perUserLimit ? { count: { $lt: coupon.perUserLimit } } : {}) },
+            { $inc: { count: 1 } },
+            { upsert: true }
+        );
+    } catch (error) {
+        await Coupon.updateOne({ _id: coupon._id }, { $inc: { usedCount: -1 } });
+        if (isMongoErrorCode(error, 11000)) throw new CouponError('You have already used this coupon.');
+        throw error;
+    }
+};
+
+// অর্ডার ব্যর্থ বা বাতিল হলে কুপনের ব্যবহার ফেরত দেওয়া
+export const releaseCoupon = async (couponId: unknown, userId: unknown) => {
+    await Coupon.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+    await CouponUsage.updateOne({ coupon: couponId, user: userId, count: { $gt: 0 } }, { $inc: { count: -1 } });
+};
@@ -0,0 +1,196 @@
+import fs from 'fs';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { IOrder, IOrderItem } from '../models/OrderModel';
+import { IProduct } from '../models/ProductModel';
+import { IUser } from '../models/UserModel';
+
+// ইনভয়েস, প্যাকিং স্লিপ আর অর্ডার CSV - সব সার্ভারেই তৈরি হয়, বাইরের কোনো সার্ভিস লাগে না
+
+// বাংলা নাম/ঠিকানা দেখাতে PDF_FONT_PATH এ ইউনিকোড TTF ফন্ট (যেমন Noto Sans Bengali) দিতে হবে;
+// না দিলে PDFKit এর Helvetica (শুধু ল্যাটিন অক্ষর)
+const getFonts = () => {
+    const regular = process.env.PDF_FONT_PATH;
+    const bold = process.env.PDF_BOLD_FONT_PATH || regular;
+    return {
+        regular: regular && fs.existsSync(regular) ? regular : 'Helvetica',
+        bold: bold && fs.existsSync(bold) ? bold : 'Helvetica-Bold',
+    };
+};
+
+const getStoreInfo = () => ({
+    name: process.env.STORE_NAME || 'Ready Food Farm',
+    address: process.env.STORE_ADDRESS || '',
+    phone: process.env.STORE_PHONE || '',
+    email: process.env.STORE_EMAIL || '',
+});
+
+// পপুলেট করা অর্ডার: items.product (name) আর user (name email phone); মুছে যাওয়া প্রোডাক্ট/ইউজার হলে null।
+// রুটে .populate<{ items: PopulatedOrderItem[] }>(...) আর .populate<{ user: PopulatedOrderUser | null }>(...) দিয়ে; CSV তে শুধু user
+export type PopulatedOrderItem = Omit<IOrderItem, 'product'> & { product: Pick<IProduct, '_id' | 'name'> | null };
+export type PopulatedOrderUser = Pick<IUser, '_id' | 'name' | 'email' | 'phone'>;
+type OrderWithCustomer = Omit<IOrder, 'user'> & { user: PopulatedOrderUser | null };
+type PopulatedOrder = Omit<OrderWithCustomer, 'items'> & { items: PopulatedOrderItem[] };
+
+export const formatInvoiceNumber = (order: Pick<IOrder, '_id'>) => `INV-${String(order._id).slice(-8).toUpperCase()}`;
+const formatMoney = (amount: number | undefined) => `BDT ${(amount || 0).toFixed(2)}`;
+const formatDate = (date: Date) => new Date(date).toISOString().slice(0, 10);
+const itemName = (item: PopulatedOrder['items'][number]) => {
+    const name = item.product?.name || 'Deleted product';
+    return item.variantLabel ? `${name} (${item.variantLabel})` : name;
+};
+
+const renderPdf = (draw: (doc: PDFKit.PDFDocument, fonts: ReturnType<typeof getFonts>) => void): Promise<Buffer> =>
+    new Promise((resolve, reject) => {
+        const doc = new PDFDocument({ size: 'A4', margin: 50 });
+        const chunks: Buffer[] = [];
+        doc.on('data', chunk => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+        try {
+            draw(doc, getFonts());
+            doc.end();
+        } catch (error) {
+            reject(error);
+        }
+    });
+
+const drawAddress = (doc: PDFKit.PDFDocument, order: PopulatedOrder, x: number, y: number) => {
+    const address = order.shippingAddress;
+    doc.text(address.fullName, x, y)
+        .text(address.address)
+        .text(`${address.city} ${address.postalCode}`)
+        .text(address.country);
+    if (order.user?.phone) doc.text(`Phone: ${order.user.phone}`);
+};
+
+// কলাম: আইটেম, SKU, পরিমাণ, একক দাম, মোট (দাম অর্ডারের সময়কার)
+const ITEM_COLUMNS = { item: 50, sku: 280, quantity: 360, price: 400, total: 480 };
+
+const drawItemsTable = (doc: PDFKit.PDFDocument, order: PopulatedOrder, fonts: ReturnType<typeof getFonts>, withPrices: boolean) => {
+    let y = doc.y + 10;
+    doc.font(fonts.bold).fontSize(10);
+    doc.text('Item', ITEM_COLUMNS.item, y).text('SKU', ITEM_COLUMNS.sku, y).text('Qty', ITEM_COLUMNS.quantity, y);
+    if (withPrices) doc.text('Unit price', ITEM_COLUMNS.price, y).text('Total', ITEM_COLUMNS.total, y);
+    y += 16;
+    doc.moveTo(50, y - 4).lineTo(545, y - 4).stroke();
+
+    doc.font(fonts.regular);
+    for (const item of order.items) {
+        if (y > doc.page.height - 120) {
+            doc.addPage();
+            y = doc.page.margins.top;
+        }
+        doc.text(itemName(item), ITEM_COLUMNS.item, y, { width: 220 });
+        const rowBottom = doc.y;
+        doc.text(item.sku || '-', ITEM_COLUMNS.sku, y).text(String(item.quantity), ITEM_COLUMNS.quantity, y);
+        if (withPrices) {
+            doc.text(formatMoney(item.price), ITEM_COLUMNS.price, y).text(formatMoney(item.price * item.quantity), ITEM_COLUMNS.total, y);
+        }
+        y = Math.max(rowBottom, y + 14) + 4;
+    }
+    doc.moveTo(50, y).lineTo(545, y).stroke();
+    doc.y = y + 8;
+};
+
+export const buildInvoicePdf = (order: PopulatedOrder) => renderPdf((doc, fonts) => {
+    const store = getStoreInfo();
+    doc.font(fonts.bold).fontSize(18).text(store.name, 50, 50);
+    doc.font(fonts.regular).fontSize(9);
+    [store.address, store.phone, store.email].filter(Boolean).forEach(line => doc.text(line));
+
+    doc.font(fonts.bold).fontSize(14).text('INVOICE', 400, 50, { align: 'right' });
+    doc.font(fonts.regular).fontSize(9)
+        .text(`Invoice: ${formatInvoiceNumber(order)}`, 350, 72, { align: 'right' })
+        .text(`Order: ${order._id}`, { align: 'right' })
+        .text(`Date: ${formatDate(order.createdAt)}`, { align: 'right' })
+        .text(`Payment: ${order.paymentMethod.toUpperCase()} (${order.paymentStatus})`, { align: 'right' });
+
+    doc.font(fonts.bold).fontSize(10).text('Bill / Ship to', 50, 140);
+    doc.font(fonts.regular).fontSize(10);
+    drawAddress(doc, order, 50, 155);
+    doc.moveDown();
+
+    drawItemsTable(doc, order, fonts, true);
+
+    // টোটাল: পুরনো অর্ডারে শুধু totalAmount থাকতে পারে
+    const subtotal = order.subtotal ?? order.items.reduce((total, item) => total + item.price * item.quantity, 0);
+    const rows: [string, number][] = [['Subtotal', subtotal]];
+    if (order.discount) rows.push([`Discount${order.coupon?.code ? ` (${order.coupon.code})` : ''}`, -order.discount]);
+    rows.push([`Delivery${order.deliveryZone ? ` (${order.deliveryZone})` : ''}`, order.shippingFee || 0]);
+    if (order.tax) rows.push(['VAT', order.tax]);
+
+    doc.fontSize(10);
+    for (const [label, amount] of rows) {
+        const y = doc.y;
+        doc.font(fonts.regular).text(label, 350, y).text(formatMoney(amount), ITEM_COLUMNS.total, y);
+        doc.moveDown(0.3);
+    }
+    const y = doc.y + 4;
+    doc.font(fonts.bold).text('Grand total', 350, y).text(formatMoney(order.grandTotal ?? order.totalAmount), ITEM_COLUMNS.total, y);
+
+    doc.font(fonts.regular).fontSize(8).text('Thank you for shopping with us.', 50, doc.page.height - 80, { align: 'center', width: 495 });
+});
+
+// প্রতিটি অর্ডারের জন্য আলাদা পাতা; দাম ছাড়া, প্যাক করার সুবিধার জন্য SKU আর পরিমাণ
+export const buildPackingSlipsPdf = (orders: PopulatedOrder[]) => renderPdf((doc, fonts) => {
+    const store = getStoreInfo();
+    orders.forEach((order, index) => {
+        if (index > 0) doc.addPage();
+        doc.font(fonts.bold).fontSize(16).text('PACKING SLIP', 50, 50);
+        doc.font(fonts.regular).fontSize(9)
+            .text(store.name)
+            .text(`Order: ${order._id}`, 350, 50, { align: 'right' })
+            .text(`Date: ${formatDate(order.createdAt)}`, { align: 'right' })
+            .text(`Payment: ${order.paymentMethod.toUpperCase()} (${order.paymentStatus})`, { align: 'right' });
+        if (order.paymentMethod === 'cod') {
+            doc.font(fonts.bold).text(`Collect: ${formatMoney(order.grandTotal ?? order.totalAmount)}`, { align: 'right' });
+        }
+
+        doc.font(fonts.bold).fontSize(10).text('Ship to', 50, 120);
+        doc.font(fonts.regular).fontSize(11);
+        drawAddress(doc, order, 50, 135);
+        if (order.deliveryZone) doc.fontSize(9).text(`Zone: ${order.deliveryZone}`);
+        doc.moveDown();
+
+        doc.fontSize(10);
+        drawItemsTable(doc, order, fonts, false);
+        doc.text(`Total items: ${order.items.reduce((total, item) => total + item.quantity, 0)}`, 50);
+    });
+});
+
+// হিসাব বিভাগের জন্য প্রতি অর্ডার এক লাইন
+export const buildOrdersCsv = async (orders: OrderWithCustomer[]): Promise<Buffer> => {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Orders');
+    worksheet.columns = [
+        'orderId', 'invoice', 'createdAt', 'customerName', 'customerEmail', 'customerPhone', 'orderStatus', 'paymentStatus',
+        'paymentMethod', 'items', 'subtotal', 'discount', 'couponCode', 'shippingFee', 'tax', 'grandTotal', 'deliveryZone',
+        'city', 'postalCode',
+    ].map(key => ({ header: key, key }));
+
+    for (const order of orders) {
+        worksheet.addRow({
+            orderId: String(order._id),
+            invoice: formatInvoiceNumber(order),
+            createdAt: new Date(order.createdAt).toISOString(),
+            customerName: order.user?.name || order.shippingAddress.fullName,
+            customerEmail: order.user?.email,
+            customerPhone: order.user?.phone,
+            orderStatus: order.orderStatus,
+            paymentStatus: order.paymentStatus,
+            paymentMethod: order.paymentMethod,
+            items: order.items.reduce((total, item) => total + item.quantity, 0),
+            subtotal: order.subtotal ?? order.totalAmount,
+            discount: order.discount || 0,
+            couponCode: order.coupon?.code,
+            shippingFee: order.shippingFee || 0,
+            tax: order.tax || 0,
+            grandTotal: order.grandTotal ?? order.totalAmount,
+            deliveryZone: order.deliveryZone,
+            city: order.shippingAddress.city,
+            postalCode: order.shippingAddress.postalCode,
+        });
+    }
+    return Buffer.from(await workbook.csv.writeBuffer() as ArrayBuffer);
+};
@@ -0,0 +1,97 @@
+import { ErrorRequestHandler, Request, Response } from 'express';
+import mongoose from 'mongoose';
+
+// সব এরর রেসপন্সের একই গঠন: { code, message, fieldErrors?, details? }
+export interface FieldError {
+    field: string; // যেমন "body.pricing.regular", "params.id"
+    message: string;
+}
+
+const DEFAULT_CODES: Record<number, string> = {
+    400: 'BAD_REQUEST',
+    401: 'UNAUTHORIZED',
+    403: 'FORBIDDEN',
+    404: 'NOT_FOUND',
+    409: 'CONFLICT',
+    413: 'PAYLOAD_TOO_LARGE',
+    422: 'UNPROCESSABLE_ENTITY',
+    429: 'TOO_MANY_REQUESTS',
+    501: 'NOT_IMPLEMENTED',
+};
+
+export interface ApiErrorOptions {
+    code?: string;
+    fieldErrors?: FieldError[];
+    details?: Record<string, unknown>; // যেমন স্টকের ঘাটতির লাইনগুলো বা কার্ট সামারি
+}
+
+// রুট থেকে throw করলেই সেন্ট্রাল এরর মিডলওয়্যার রেসপন্স পাঠাবে; ডোমেইন এররগুলো (CouponError, CartError ...) এটাকেই extend করে
+export class ApiError extends Error {
+    status: number;
+    code: string;
+    fieldErrors?: FieldError[];
+    details?: Record<string, unknown>;
+
+    constructor(status: number, message: string, options: ApiErrorOptions = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.status = status;
+        this.code = options.code || DEFAULT_CODES[status] || 'BAD_REQUEST';
+        this.fieldErrors = options.fieldErrors;
+        this.details = options.details;
+    }
+}
+
+// MongoDB সার্ভারের এরর কোড দেখা (11000 duplicate key, 20 ট্রানজ্যাকশন সাপোর্ট নেই ...)
+export const isMongoErrorCode = (error: unknown, code: number): error is mongoose.mongo.MongoServerError =>
+    typeof error === 'object' && error !== null && (error as { code?: unknown }).code === code;
+
+// Mongoose আর body-parser এর এররগুলোকেও একই গঠনে আনা; অজানা এরর মানে 500
+const toApiError = (error: any): ApiError => {
+    if (error instanceof ApiError) return error;
+
+    if (error instanceof mongoose.Error.ValidationError) {
+        return new ApiError(400, 'Validation failed.', {
+            code: 'VALIDATION_ERROR',
+            fieldErrors: Object.values(error.errors).map(fieldError => ({ field: `body.${fieldError.path}`, message: fieldError.message })),
+        });
+    }
+    if (error instanceof mongoose.Error.CastError) {
+        return new ApiError(400, `Invalid value for ${error.path}.`, {
+            code: error.kind === 'ObjectId' ? 'INVALID_ID' : 'VALIDATION_ERROR',
+            fieldErrors: [{ field: error.path, message: `Invalid ${error.kind}.` }],
+        });
+    }
+    if (error?.code === 11000) {
+        const fields = Object.keys(error.keyValue || error.keyPattern || {});
+        return new ApiError(409, 'A record with the same value already exists.', {
+            code: 'DUPLICATE_KEY',
+            fieldErrors: fields.map(field => ({ field: `body.${field}`, message: 'Must be unique.' })),
+        });
+    }
+    // express.json() এর এরর
+    if (error?.type === 'entity.parse.failed') return new ApiError(400, 'Request body is not valid JSON.', { code: 'INVALID_JSON' });
+    if (error?.type === 'entity.too.large') return new ApiError(413, 'Request body is too large.');
+
+    return new ApiError(500, 'Something went wrong. Please try again later.', { code: 'INTERNAL_ERROR' });
+};
+
+export const sendError = (res: Response, error: ApiError) =>
+    res.status(error.status).json({
+        code: error.code,
+        message: error.message,
+        ...(error.fieldErrors ? { fieldErrors: error.fieldErrors } : {}),
+        ...(error.details ? { details: error.details } : {}),
+    });
+
+// সব রুটের শেষে: প্রতিটি রুটে আলাদা try/catch লাগে না (Express 5 async এরর নিজেই এখানে পাঠায়)
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+    if (res.headersSent) return next(error);
+    const apiError = toApiError(error);
+    if (apiError.status >= 500) console.error(`❌ ${req.method} ${req.originalUrl} Error:`, error);
+    sendError(res, apiError);
+};
+
+export const notFoundHandler = (req: Request, res: Response) => {
+    sendError(res, new ApiError(404, `Route ${req.method} ${req.path} not found.`, { code: 'ROUTE_NOT_FOUND' }));
+};
@@ -0,0 +1,43 @@
+import GuestCart from '../models/GuestCartModel';
+import { mergeGuestCartIntoUser } from './guestCart';
+import { mergeCarts } from './cart';
+
+jest.mock('./cart');
+
+const guestCart = { _id: 'guest-1', cart: [{ product: 'p1', quantity: 1 }], wishlist: ['p2'] } as any;
+const user = (save: jest.Mock) => ({ cart: [], wishlist: [], set: jest.fn(), save } as any);
+
+describe('mergeGuestCartIntoUser', () => {
+    beforeEach(() => {
+        jest.mocked(mergeCarts).mockResolvedValue([]);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('deletes the guest cart only after the user is saved', async () => {
+        jest.spyOn(GuestCart, 'findOneAndUpdate').mockResolvedValue(guestCart);
+        const remove = jest.spyOn(GuestCart, 'deleteOne').mockResolvedValue({} as any);
+        const save = jest.fn().mockResolvedValue(undefined);
+
+        expect(await mergeGuestCartIntoUser(user(save), 'token')).toBe(true);
+
+        expect(save).toHaveBeenCalled();
+        expect(remove).toHaveBeenCalledWith({ _id: 'guest-1' });
+        expect(save.mock.invocationCallOrder[0]).toBeLessThan(remove.mock.invocationCallOrder[0]);
+    });
+
+    it('keeps the guest cart and releases the claim when saving the user fails', async () => {
+        jest.spyOn(GuestCart, 'findOneAndUpdate').mockResolvedValue(guestCart);
+        const remove = jest.spyOn(GuestCart, 'deleteOne');
+        const release = jest.spyOn(GuestCart, 'updateOne').mockResolvedValue({} as any);
+
+        await expect(mergeGuestCartIntoUser(user(jest.fn().mockRejectedValue(new Error('write failed'))), 'token')).rejects.toThrow('write failed');
+
+        expect(remove).not.toHaveBeenCalled();
+        expect(release).toHaveBeenCalledWith({ _id: 'guest-1' }, { $set: { mergingUntil: null } });
+    });
+
+    it('does nothing when the cart is missing or already being merged', async () => {
+        jest.spyOn(GuestCart, 'findOneAndUpdate').mockResolvedValue(null);
+        expect(await mergeGuestCartIntoUser(user(jest.fn()), 'token')).toBe(false);
+    });
+});
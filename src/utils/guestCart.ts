@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import GuestCart, { IGuestCart } from '../models/GuestCartModel';
+import { IUser } from '../models/UserModel';
+import { hashToken } from './auth';
+import { mergeCarts } from './cart';
+
+// ক্লায়েন্ট টোকেনটি এই হেডারে (বা body.cartToken এ) পাঠাবে
+export const CART_TOKEN_HEADER = 'x-cart-token';
+
+const getGuestCartTtlDays = () => Number(process.env.GUEST_CART_TTL_DAYS) || 30;
+const nextExpiry = () => new Date(Date.now() + getGuestCartTtlDays() * 24 * 60 * 60 * 1000);
+
+export const getCartToken = (req: Request): string | null => {
+    const token = req.get(CART_TOKEN_HEADER) || req.body?.cartToken;
+    return typeof token === 'string' && token.trim() ? token.trim() : null;
+};
+
+// মেয়াদ পেরোনো কার্ট TTL ইনডেক্স মোছার আগেও যেন ব্যবহার না হয়
+export const findGuestCart = async (token: string | null): Promise<IGuestCart | null> => {
+    if (!token) return null;
+    return GuestCart.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+};
+
+// টোকেন না থাকলে বা মেয়াদ শেষ হলে নতুন কার্ট; token শুধু নতুন কার্টের জন্য ফেরত আসে (ডাটাবেসে শুধু হ্যাশ থাকে)
+export const findOrCreateGuestCart = async (token: string | null): Promise<{ guestCart: IGuestCart; token: string | null }> => {
+    const existing = await findGuestCart(token);
+    if (existing) return { guestCart: existing, token: null };
+
+    const newToken = crypto.randomBytes(32).toString('base64url');
+    const guestCart = new GuestCart({ tokenHash: hashToken(newToken), cart: [], wishlist: [], expiresAt: nextExpiry() });
+    return { guestCart, token: newToken };
+};
+
+// প্রতিবার পরিবর্তনে মেয়াদ নতুন করে শুরু হয়
+export const saveGuestCart = async (guestCart: IGuestCart) => {
+    guestCart.expiresAt = nextExpiry();
+    await guestCart.save();
+};
+
+const MERGE_LOCK_MS = 60 * 1000;
+
+// লগইন/সাইনআপের পর গেস্ট কার্ট আর উইশলিস্ট ইউজারের সাথে মেশানো। কার্টটি আগে লক করে দাবি করা হয়
+// (একই টোকেন একসাথে দুবার মেশানো যায় না), আর ইউজার সেভ হওয়ার পরেই মোছা হয়; সেভ ব্যর্থ হলে লক ছেড়ে দেওয়া হয়,
+// তাই গেস্টের কার্ট হারায় না।
+export const mergeGuestCartIntoUser = async (user: IUser, token: string | null): Promise<boolean> => {
+    if (!token) return false;
+    const now = new Date();
+    const guestCart = await GuestCart.findOneAndUpdate(
+        { tokenHash: hashToken(token), expiresAt: { $gt: now }, mergingUntil: { $not: { $gt: now } } },
+        { $set: { mergingUntil: new Date(now.getTime() + MERGE_LOCK_MS) } },
+        { new: true }
+    );
+    if (!guestCart) return false;
+
+    try {
+        user.set('cart', await mergeCarts(user.cart, guestCart.cart));
+        const wishlist = new Set(user.wishlist.map(String));
+        for (const productId of guestCart.wishlist) {
+            if (!wishlist.has(String(productId))) user.wishlist.push(productId);
+        }
+        await user.save();
+    } catch (error) {
+        await GuestCart.updateOne({ _id: guestCart._id }, { $set: { mergingUntil: null } });
+        throw error;
+    }
+    await GuestCart.deleteOne({ _id: guestCart._id });
+    return true;
+};
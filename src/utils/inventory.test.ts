@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import Product from '../models/ProductModel';
+import { releaseStock, reserveStock } from './inventory';
+
+const productId = () => new mongoose.Types.ObjectId();
+const updated = (modifiedCount: number) => ({ modifiedCount } as any);
+// findById(...).select(...) চেইন
+const foundProduct = (product: unknown) => ({ select: jest.fn().mockResolvedValue(product) } as any);
+
+describe('reserveStock', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('reserves every line with a conditional decrement', async () => {
+        const updateOne = jest.spyOn(Product, 'updateOne').mockResolvedValue(updated(1));
+        const bulkWrite = jest.spyOn(Product, 'bulkWrite');
+        const a = productId();
+
+        const errors = await reserveStock([{ product: a, quantity: 2 }]);
+
+        expect(errors).toEqual([]);
+        expect(updateOne).toHaveBeenCalledWith(
+            { _id: a, status: true, stock: { $gte: 2 } },
+            { $inc: { stock: -2 } }
+        );
+        expect(bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('decrements the variant and the product total for variant lines', async () => {
+        const updateOne = jest.spyOn(Product, 'updateOne').mockResolvedValue(updated(1));
+        const a = productId();
+        const variant = productId();
+
+        await reserveStock([{ product: a, variant, quantity: 3 }]);
+
+        expect(updateOne).toHaveBeenCalledWith(
+            { _id: a, status: true, variants: { $elemMatch: { _id: variant, stock: { $gte: 3 } } } },
+            { $inc: { 'variants.$.stock': -3, stock: -3 } }
+        );
+    });
+
+    it('releases already reserved lines when a later line is short', async () => {
+        const a = productId();
+        const b = productId();
+        jest.spyOn(Product, 'updateOne').mockResolvedValueOnce(updated(1)).mockResolvedValueOnce(updated(0));
+        jest.spyOn(Product, 'findById').mockReturnValue(foundProduct({ name: 'Honey', stock: 1, status: true, variants: [] }));
+        const bulkWrite = jest.spyOn(Product, 'bulkWrite').mockResolvedValue({} as any);
+
+        const errors = await reserveStock([{ product: a, quantity: 2 }, { product: b, quantity: 5 }]);
+
+        expect(errors).toEqual([
+            { product: b.toString(), name: 'Honey', requested: 5, available: 1, reason: 'insufficient_stock' },
+        ]);
+        expect(bulkWrite).toHaveBeenCalledWith([{ updateOne: { filter: { _id: a }, update: { $inc: { stock: 2 } } } }]);
+    });
+
+    it('reports missing and inactive products', async () => {
+        const missing = productId();
+        const inactive = productId();
+        jest.spyOn(Product, 'updateOne').mockResolvedValue(updated(0));
+        jest.spyOn(Product, 'findById')
+            .mockReturnValueOnce(foundProduct(null))
+            .mockReturnValueOnce(foundProduct({ name: 'Ghee', stock: 10, status: false, variants: [] }));
+        const bulkWrite = jest.spyOn(Product, 'bulkWrite');
+
+        const errors = await reserveStock([{ product: missing, quantity: 1 }, { product: inactive, quantity: 1 }]);
+
+        expect(errors.map(error => error.reason)).toEqual(['not_found', 'inactive']);
+        expect(errors[0].available).toBe(0);
+        // কিছুই রিজার্ভ হয়নি, তাই ফেরত দেওয়ার কিছু নেই
+        expect(bulkWrite).not.toHaveBeenCalled();
+    });
+});
+
+describe('releaseStock', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('does nothing for an empty list', async () => {
+        const bulkWrite = jest.spyOn(Product, 'bulkWrite');
+        await releaseStock([]);
+        expect(bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('returns stock to products and variants in one bulk write', async () => {
+        const bulkWrite = jest.spyOn(Product, 'bulkWrite').mockResolvedValue({} as any);
+        const a = productId();
+        const b = productId();
+        const variant = productId();
+
+        await releaseStock([{ product: a, quantity: 2 }, { product: b, variant, quantity: 1 }]);
+
+        expect(bulkWrite).toHaveBeenCalledWith([
+            { updateOne: { filter: { _id: a }, update: { $inc: { stock: 2 } } } },
+            { updateOne: { filter: { _id: b, 'variants._id': variant }, update: { $inc: { 'variants.$.stock': 1, stock: 1 } } } },
+        ]);
+    });
+});
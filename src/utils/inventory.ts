@@ -0,0 +1,70 @@
+import mongoose from 'mongoose';
+import Product from '../models/ProductModel';
+
+export interface StockLine {
+    product: mongoose.Types.ObjectId | mongoose.Schema.Types.ObjectId | string;
+    variant?: unknown; // থাকলে ভ্যারিয়েন্টের স্টক কমবে (প্রোডাক্টের মোট স্টকও)
+    quantity: number;
+}
+
+export interface StockError {
+    product: string;
+    variant?: string;
+    name?: string;
+    requested: number;
+    available: number;
+    reason: 'not_found' | 'inactive' | 'insufficient_stock';
+}
+
+// প্রতিটি লাইনের জন্য শর্তসাপেক্ষ $inc: স্টক যথেষ্ট আর প্রোডাক্ট active হলেই কমবে।
+// কোনো একটি ব্যর্থ হলে আগে কমানো স্টকগুলো ফেরত দেওয়া হয়, তাই হয় সব লাইন রিজার্ভ হবে, নয়তো কোনোটিই না।
+export const reserveStock = async (lines: StockLine[]): Promise<StockError[]> => {
+    const reserved: StockLine[] = [];
+    const errors: StockError[] = [];
+
+    for (const line of lines) {
+        const result = line.variant
+            ? await Product.updateOne(
+                { _id: line.product, status: true, variants: { $elemMatch: { _id: line.variant, stock: { $gte: line.quantity } } } },
+                { $inc: { 'variants.$.stock': -line.quantity, stock: -line.quantity } }
+            )
+            : await Product.updateOne(
+                { _id: line.product, status: true, stock: { $gte: line.quantity } },
+                { $inc: { stock: -line.quantity } }
+            );
+        if (result.modifiedCount === 1) {
+            reserved.push(line);
+            continue;
+        }
+
+        const product = await Product.findById(line.product).select('name stock status variants');
+        const variant = line.variant ? product?.variants.find(v => String(v._id) === String(line.variant)) : null;
+        const found = Boolean(product && (!line.variant || variant));
+        errors.push({
+            product: line.product.toString(),
+            ...(line.variant ? { variant: String(line.variant) } : {}),
+            name: variant ? `${product!.name} (${variant.label})` : product?.name,
+            requested: line.quantity,
+            available: found ? Math.max((variant || product)!.stock, 0) : 0,
+            reason: !found ? 'not_found' : !product!.status ? 'inactive' : 'insufficient_stock',
+        });
+    }
+
+    if (errors.length > 0) await releaseStock(reserved);
+    return errors;
+};
+
+export const releaseStock = async (lines: StockLine[]): Promise<void> => {
+    if (lines.length === 0) return;
+    await Product.bulkWrite(lines.map(line => ({
+        updateOne: line.variant
+            ? {
+                filter: { _id: line.product, 'variants._id': line.variant },
+                update: { $inc: { 'variants.$.stock': line.quantity, stock: line.quantity } },
+            }
+            : {
+                filter: { _id: line.product },
+                update: { $inc: { stock: line.quantity } },
+            },
+    })));
+};
@@ -0,0 +1,18 @@
+import fs from 'fs/promises';
+import { NotificationChannel } from '../../models/NotificationModel';
+import { NotificationTransport } from './types';
+
+// লোকাল ডেভেলপমেন্টের জন্য: বার্তা পাঠানোর বদলে কনসোলে দেখানো,
+// filePath দিলে সেখানে প্রতি লাইনে একটি JSON যোগ হয় (টেস্টে পড়ে দেখার জন্য)
+export const createConsoleTransport = (channel: NotificationChannel, filePath?: string): NotificationTransport => ({
+    name: filePath ? 'file' : 'console',
+    channel,
+    async send(message) {
+        if (filePath) {
+            const line = JSON.stringify({ channel, ...message, sentAt: new Date().toISOString() });
+            await fs.appendFile(filePath, `${line}\n`);
+            return;
+        }
+        console.log(`[notification:${channel}] to=${message.to} subject=${message.subject}\n${message.text}`);
+    },
+});
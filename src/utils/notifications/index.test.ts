@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import Notification from '../../models/NotificationModel';
+import User from '../../models/UserModel';
+import { notifyOrderStatusChanged, processOutbox, registerNotificationTransport } from '.';
+
+const notification = (channel: 'email' | 'sms') => ({
+    _id: new mongoose.Types.ObjectId(),
+    user: new mongoose.Types.ObjectId(),
+    type: 'order_placed',
+    channel,
+    attempts: 0,
+    data: { orderId: 'abc', orderNumber: 'ABCD1234', customerName: 'Rahim', total: 100, itemCount: 1 },
+} as any);
+
+const customer = { email: 'rahim@example.com', phone: '01700000000', language: 'en', deletedAt: null };
+
+describe('processOutbox', () => {
+    beforeEach(() => {
+        jest.spyOn(User, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue(customer) } as any);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('fails a notification whose channel has no configured transport instead of pretending to send it', async () => {
+        const row = notification('sms');
+        jest.spyOn(Notification, 'findOneAndUpdate').mockResolvedValueOnce(row).mockResolvedValueOnce(null);
+        const update = jest.spyOn(Notification, 'updateOne').mockResolvedValue({} as any);
+
+        expect(await processOutbox()).toBe(1);
+
+        const [, change] = update.mock.calls[0] as any[];
+        expect(change.$set).toMatchObject({ status: 'failed', attempts: 1 });
+        expect(change.$set.lastError).toContain('No sms transport is configured');
+    });
+
+    it('sends through the registered transport and marks the row sent', async () => {
+        const send = jest.fn().mockResolvedValue(undefined);
+        registerNotificationTransport({ name: 'test', channel: 'email', send });
+        const row = notification('email');
+        jest.spyOn(Notification, 'findOneAndUpdate').mockResolvedValueOnce(row).mockResolvedValueOnce(null);
+        const update = jest.spyOn(Notification, 'updateOne').mockResolvedValue({} as any);
+
+        await processOutbox();
+
+        expect(send).toHaveBeenCalledWith(expect.objectContaining({ to: customer.email, subject: 'Order #ABCD1234 received' }));
+        expect((update.mock.calls[0] as any[])[1].$set).toMatchObject({ status: 'sent' });
+    });
+
+    it('schedules a retry when the transport throws', async () => {
+        registerNotificationTransport({ name: 'test', channel: 'email', send: jest.fn().mockRejectedValue(new Error('SMTP timeout')) });
+        jest.spyOn(Notification, 'findOneAndUpdate').mockResolvedValueOnce(notification('email')).mockResolvedValueOnce(null);
+        const update = jest.spyOn(Notification, 'updateOne').mockResolvedValue({} as any);
+
+        await processOutbox();
+
+        expect((update.mock.calls[0] as any[])[1].$set).toMatchObject({ status: 'queued', attempts: 1, lastError: 'SMTP timeout' });
+    });
+});
+
+describe('notifyOrderStatusChanged', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('queues a templated email and SMS for the customer when the order ships', async () => {
+        jest.spyOn(User, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue(customer) } as any);
+        jest.spyOn(Notification, 'findOneAndUpdate').mockResolvedValue(null);
+        const insert = jest.spyOn(Notification, 'insertMany').mockResolvedValue([] as any);
+        const order = {
+            _id: new mongoose.Types.ObjectId(),
+            user: new mongoose.Types.ObjectId(),
+            orderStatus: 'shipped',
+            items: [{ quantity: 2 }],
+            grandTotal: 250,
+            paymentMethod: 'cod',
+            shippingAddress: { fullName: 'Rahim', phone: '01700000000', city: 'Dhaka' },
+        } as any;
+
+        await notifyOrderStatusChanged(order);
+        await new Promise(resolve => setImmediate(resolve)); // kickOutbox শেষ হতে দেওয়া
+
+        const rows = insert.mock.calls[0][0] as any[];
+        expect(rows.map(row => [row.type, row.channel])).toEqual([['order_shipped', 'email'], ['order_shipped', 'sms']]);
+    });
+});
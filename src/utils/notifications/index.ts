@@ -0,0 +1,231 @@
+import mongoose from 'mongoose';
+import Notification, { INotification, NOTIFICATION_CHANNELS, NotificationChannel } from '../../models/NotificationModel';
+import { IOrder } from '../../models/OrderModel';
+import User from '../../models/UserModel';
+import { createConsoleTransport } from './console';
+import { createSmsGatewayTransport } from './sms';
+import { createSmtpTransport } from './smtp';
+import { hasNotificationTemplate, renderNotification } from './templates';
+import { NotificationTransport } from './types';
+
+export * from './types';
+
+// ================== TRANSPORTS ==================
+const transports = new Map<NotificationChannel, NotificationTransport>();
+let defaultsRegistered = false;
+
+// প্রতি চ্যানেলে একটি ট্রান্সপোর্ট; পরে রেজিস্টার করলে আগেরটা বদলে যায়
+export const registerNotificationTransport = (transport: NotificationTransport) => {
+    transports.set(transport.channel, transport);
+};
+
+// env থেকে প্রথম ব্যবহারের সময় (dotenv লোড হওয়ার পরে)। কনসোল/ফাইল ট্রান্সপোর্ট শুধু NOTIFICATION_TRANSPORT=console দিলে
+// (লোকাল ডেভেলপমেন্ট; NOTIFICATION_LOG_FILE দিলে সেই ফাইলে)। কনফিগার না থাকা চ্যানেলের নোটিফিকেশন failed হয়, কখনো 'sent' নয়
+const registerDefaultTransports = () => {
+    if (defaultsRegistered) return;
+    defaultsRegistered = true;
+
+    const { NOTIFICATION_TRANSPORT, NOTIFICATION_LOG_FILE, SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_FROM, SMS_GATEWAY_URL, SMS_API_KEY, SMS_SENDER_ID } = process.env;
+    if (NOTIFICATION_TRANSPORT === 'console') {
+        for (const channel of NOTIFICATION_CHANNELS) registerNotificationTransport(createConsoleTransport(channel, NOTIFICATION_LOG_FILE));
+        return;
+    }
+    if (SMTP_HOST && SMTP_FROM) {
+        registerNotificationTransport(createSmtpTransport({ host: SMTP_HOST, port: Number(SMTP_PORT) || 587, user: SMTP_USER, pass: SMTP_PASS, from: SMTP_FROM }));
+    }
+    if (SMS_GATEWAY_URL && SMS_API_KEY) {
+        registerNotificationTransport(createSmsGatewayTransport({ url: SMS_GATEWAY_URL, apiKey: SMS_API_KEY, senderId: SMS_SENDER_ID }));
+    }
+};
+
+const TRANSPORT_SETUP_HINTS: Record<NotificationChannel, string> = {
+    email: 'set SMTP_HOST and SMTP_FROM',
+    sms: 'set SMS_GATEWAY_URL and SMS_API_KEY',
+};
+
+export const getNotificationTransport = (channel: NotificationChannel) => {
+    registerDefaultTransports();
+    return transports.get(channel);
+};
+
+// ================== OUTBOX ==================
+const getMaxAttempts = () => Number(process.env.NOTIFICATION_MAX_ATTEMPTS) || 5;
+const LOCK_MS = 5 * 60 * 1000; // 'sending' অবস্থায় এর বেশি আটকে থাকলে ওয়ার্কার আবার নেবে
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+// ১ মিনিট, ২, ৪, ৮ ... সর্বোচ্চ ৬ ঘণ্টা
+export const getRetryDelayMs = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+
+// আবার চেষ্টা করে লাভ নেই (ইউজার নেই, টেমপ্লেট নেই ইত্যাদি) - সরাসরি failed
+class PermanentNotificationError extends Error {}
+
+// পরের পাঠানোর যোগ্য লাইনটি নিজের নামে লক করা; একাধিক ইনস্ট্যান্স চললেও একটি লাইন একবারই নেওয়া হবে
+const claimNextNotification = () => {
+    const now = new Date();
+    return Notification.findOneAndUpdate(
+        {
+            $or: [
+                { status: 'queued', nextAttemptAt: { $not: { $gt: now } } }, // পুরনো লাইনে nextAttemptAt নেই
+                { status: 'sending', lockedUntil: { $lt: now } },
+            ],
+        },
+        { $set: { status: 'sending', lockedUntil: new Date(now.getTime() + LOCK_MS) } },
+        { sort: { nextAttemptAt: 1 }, new: true }
+    );
+};
+
+const deliverNotification = async (notification: INotification) => {
+    const user = await User.findById(notification.user).select('email phone language deletedAt');
+    if (!user || user.deletedAt) throw new PermanentNotificationError('Recipient account no longer exists.');
+
+    const recipient = notification.recipient || (notification.channel === 'sms' ? user.phone : user.email);
+    if (!recipient) throw new PermanentNotificationError(`No ${notification.channel} recipient.`);
+
+    let rendered;
+    try {
+        rendered = renderNotification(notification.type, notification.locale || user.language || 'bn', notification.data);
+    } catch (error) {
+        throw new PermanentNotificationError((error as Error).message);
+    }
+
+    const transport = getNotificationTransport(notification.channel);
+    if (!transport) {
+        throw new PermanentNotificationError(
+            `No ${notification.channel} transport is configured (${TRANSPORT_SETUP_HINTS[notification.channel]}, or NOTIFICATION_TRANSPORT=console for local use).`
+        );
+    }
+    await transport.send({
+        to: recipient,
+        subject: rendered.subject,
+        text: notification.channel === 'sms' ? rendered.sms : rendered.text,
+    });
+};
+
+const recordFailure = async (notification: INotification, error: unknown) => {
+    const attempts = (notification.attempts || 0) + 1;
+    const failed = error instanceof PermanentNotificationError || attempts >= getMaxAttempts();
+    await Notification.updateOne(
+        { _id: notification._id },
+        {
+            $set: {
+                status: failed ? 'failed' : 'queued',
+                attempts,
+                lastError: error instanceof Error ? error.message : String(error),
+                nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+                lockedUntil: null,
+            },
+        }
+    );
+};
+
+let processing = false;
+
+// একবারে সর্বোচ্চ limit টি নোটিফিকেশন পাঠানো; কতগুলো চেষ্টা করা হলো সেটা ফেরত দেয়
+export const processOutbox = async (limit = 50) => {
+    if (processing) return 0;
+    processing = true;
+    let handled = 0;
+    try {
+        while (handled < limit) {
+            const notification = await claimNextNotification();
+            if (!notification) break;
+            handled += 1;
+            try {
+                await deliverNotification(notification);
+                await Notification.updateOne(
+                    { _id: notification._id },
+                    { $set: { status: 'sent', sentAt: new Date(), lockedUntil: null, lastError: null }, $inc: { attempts: 1 } }
+                );
+            } catch (error) {
+                await recordFailure(notification, error);
+            }
+        }
+    } finally {
+        processing = false;
+    }
+    return handled;
+};
+
+// নতুন নোটিফিকেশন রাখার পরে ওয়ার্কারের পরের রাউন্ডের অপেক্ষা না করে পাঠানো শুরু (রিকোয়েস্ট এর জন্য অপেক্ষা করে না)
+const kickOutbox = () => {
+    setImmediate(() => {
+        processOutbox().catch(error => console.error('Notification Outbox Error:', error));
+    });
+};
+
+// NOTIFICATION_POLL_SECONDS পরপর ব্যর্থ/জমে থাকা নোটিফিকেশন পাঠানো; একাধিক ইনস্ট্যান্সেও নিরাপদ
+export const startNotificationWorker = () => {
+    if (process.env.NOTIFICATION_WORKER_ENABLED === 'false') return;
+    const intervalMs = (Number(process.env.NOTIFICATION_POLL_SECONDS) || 30) * 1000;
+    setInterval(kickOutbox, intervalMs).unref();
+    kickOutbox();
+};
+
+// ================== ORDER NOTIFICATIONS ==================
+// user আসে অর্ডার (IOrder['user']) বা স্টাফ কোয়েরি থেকে
+interface QueuedNotification {
+    user: INotification['user'] | mongoose.Types.ObjectId;
+    type: string;
+    channel: NotificationChannel;
+    recipient?: string;
+    order: mongoose.Types.ObjectId;
+    data: Record<string, unknown>;
+}
+
+const ORDER_ALERT_ROLES = ['admin', 'order-manager'];
+
+const buildOrderData = (order: IOrder, customer: { email?: string; phone?: string } | null) => ({
+    orderId: String(order._id),
+    orderNumber: String(order._id).slice(-8).toUpperCase(),
+    customerName: order.shippingAddress.fullName,
+    customerEmail: customer?.email,
+    customerPhone: order.shippingAddress.phone || customer?.phone,
+    total: order.grandTotal ?? order.totalAmount,
+    itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+    paymentMethod: order.paymentMethod,
+    city: order.shippingAddress.city,
+});
+
+// কাস্টমারকে ইমেইল, আর ডেলিভারির ফোন নম্বর থাকলে SMS
+const customerNotifications = (order: IOrder, type: string, data: Record<string, unknown>): QueuedNotification[] => {
+    const rows: QueuedNotification[] = [{ user: order.user, type, channel: 'email', order: order._id, data }];
+    const phone = order.shippingAddress.phone;
+    if (phone) rows.push({ user: order.user, type, channel: 'sms', recipient: phone, order: order._id, data });
+    return rows;
+};
+
+// টেমপ্লেট নেই এমন টাইপ কিউতে রাখলে পাঠানোর সময় failed হতো, তাই এখনই ধরা হয়
+const queueNotifications = async (rows: QueuedNotification[]) => {
+    if (rows.length === 0) return;
+    const unknownType = rows.find(row => !hasNotificationTemplate(row.type));
+    if (unknownType) throw new Error(`No notification template for '${unknownType.type}'.`);
+    await Notification.insertMany(rows);
+    kickOutbox();
+};
+
+// অর্ডার সেভ হওয়ার পরে কল করা হয়; নোটিফিকেশনে সমস্যা হলেও অর্ডার আটকাবে না
+export const notifyOrderPlaced = async (order: IOrder) => {
+    try {
+        const customer = await User.findById(order.user).select('email phone');
+        const data = buildOrderData(order, customer);
+        const staff = await User.find({ role: { $in: ORDER_ALERT_ROLES }, deletedAt: null }).select('_id').lean<{ _id: mongoose.Types.ObjectId }[]>();
+        await queueNotifications([
+            ...customerNotifications(order, 'order_placed', data),
+            ...staff.map((member): QueuedNotification => ({ user: member._id, type: 'admin_new_order', channel: 'email', order: order._id, data })),
+        ]);
+    } catch (error) {
+        console.error('Order Notification Error:', error);
+    }
+};
+
+// শুধু shipped আর delivered এ কাস্টমারকে জানানো হয়
+export const notifyOrderStatusChanged = async (order: IOrder) => {
+    if (order.orderStatus !== 'shipped' && order.orderStatus !== 'delivered') return;
+    try {
+        const customer = await User.findById(order.user).select('email phone');
+        await queueNotifications(customerNotifications(order, `order_${order.orderStatus}`, buildOrderData(order, customer)));
+    } catch (error) {
+        console.error('Order Notification Error:', error);
+    }
+};
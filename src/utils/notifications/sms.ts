@@ -0,0 +1,24 @@
+import { NotificationTransport } from './types';
+
+export interface SmsGatewayConfig {
+    url: string;
+    apiKey: string;
+    senderId?: string;
+}
+
+// বাংলাদেশের বেশিরভাগ SMS গেটওয়ের (BulkSMSBD ইত্যাদি) মতো HTTP API:
+// POST form { api_key, senderid, number, message }, সফল হলে 2xx
+export const createSmsGatewayTransport = (config: SmsGatewayConfig): NotificationTransport => ({
+    name: 'sms-gateway',
+    channel: 'sms',
+    async send(message) {
+        const form = new URLSearchParams({
+            api_key: config.apiKey,
+            senderid: config.senderId || '',
+            number: message.to,
+            message: message.text,
+        });
+        const response = await fetch(config.url, { method: 'POST', body: form });
+        if (!response.ok) throw new Error(`SMS gateway responded with ${response.status}.`);
+    },
+});
@@ -0,0 +1,28 @@
+import nodemailer from 'nodemailer';
+import { NotificationTransport } from './types';
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    user?: string;
+    pass?: string;
+    from: string; // যেমন "Ready Food Farm <no-reply@example.com>"
+}
+
+// ইমেইল: যে কোনো SMTP সার্ভার (Gmail, SES, Mailgun ইত্যাদি)
+export const createSmtpTransport = (config: SmtpConfig): NotificationTransport => {
+    const transporter = nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.port === 465, // 465 = সরাসরি TLS, বাকিগুলো STARTTLS
+        auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    });
+
+    return {
+        name: 'smtp',
+        channel: 'email',
+        async send(message) {
+            await transporter.sendMail({ from: config.from, to: message.to, subject: message.subject, text: message.text });
+        },
+    };
+};
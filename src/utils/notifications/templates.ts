@@ -0,0 +1,128 @@
+import { UserLanguage } from '../../models/UserModel';
+
+export interface RenderedNotification {
+    subject: string;
+    text: string; // ইমেইলের বডি
+    sms: string; // ছোট বার্তা (একটি-দুটি SMS এর মধ্যে)
+}
+
+type TemplateData = Record<string, any>;
+type Template = (data: TemplateData) => RenderedNotification;
+
+const getFrontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+const storeName = () => process.env.STORE_NAME || 'Ready Food Farm';
+
+// বাংলা বার্তায় সংখ্যাও বাংলা অঙ্কে
+const BANGLA_DIGITS = '০১২৩৪৫৬৭৮৯';
+const toBanglaDigits = (value: string) => value.replace(/\d/g, digit => BANGLA_DIGITS[Number(digit)]);
+
+const money = (amount: unknown, language: UserLanguage) => {
+    const value = Number(amount || 0).toFixed(2);
+    return language === 'bn' ? `৳${toBanglaDigits(value)}` : `BDT ${value}`;
+};
+const count = (value: unknown, language: UserLanguage) => (language === 'bn' ? toBanglaDigits(String(value)) : String(value));
+
+const orderUrl = (data: TemplateData) => `${getFrontendUrl()}/orders/${data.orderId}`;
+const productUrl = (data: TemplateData) => `${getFrontendUrl()}/products/${data.slug}`;
+
+// ================== TEMPLATES ==================
+// type → ভাষা → বার্তা। নতুন নোটিফিকেশন টাইপ যোগ করলে দুই ভাষাতেই টেমপ্লেট দিতে হবে।
+const TEMPLATES: Record<string, Record<UserLanguage, Template>> = {
+    order_placed: {
+        bn: data => ({
+            subject: `অর্ডার #${data.orderNumber} গ্রহণ করা হয়েছে`,
+            text: `প্রিয় ${data.customerName},\n\nআপনার অর্ডার #${data.orderNumber} আমরা পেয়েছি। ` +
+                `মোট ${count(data.itemCount, 'bn')}টি পণ্য, সর্বমোট ${money(data.total, 'bn')}।\n` +
+                `অর্ডারের অবস্থা দেখুন: ${orderUrl(data)}\n\nধন্যবাদ,\n${storeName()}`,
+            sms: `${storeName()}: আপনার অর্ডার #${data.orderNumber} (${money(data.total, 'bn')}) গ্রহণ করা হয়েছে। ধন্যবাদ!`,
+        }),
+        en: data => ({
+            subject: `Order #${data.orderNumber} received`,
+            text: `Dear ${data.customerName},\n\nWe have received your order #${data.orderNumber}: ` +
+                `${data.itemCount} item(s), total ${money(data.total, 'en')}.\n` +
+                `Track your order: ${orderUrl(data)}\n\nThank you,\n${storeName()}`,
+            sms: `${storeName()}: your order #${data.orderNumber} (${money(data.total, 'en')}) has been received. Thank you!`,
+        }),
+    },
+    order_shipped: {
+        bn: data => ({
+            subject: `অর্ডার #${data.orderNumber} পাঠানো হয়েছে`,
+            text: `প্রিয় ${data.customerName},\n\nআপনার অর্ডার #${data.orderNumber} ডেলিভারির জন্য পাঠানো হয়েছে। ` +
+                (data.paymentMethod === 'cod' ? `ডেলিভারির সময় ${money(data.total, 'bn')} পরিশোধ করুন।\n` : '\n') +
+                `অর্ডারের অবস্থা দেখুন: ${orderUrl(data)}\n\nধন্যবাদ,\n${storeName()}`,
+            sms: `${storeName()}: আপনার অর্ডার #${data.orderNumber} পাঠানো হয়েছে।` +
+                (data.paymentMethod === 'cod' ? ` ডেলিভারির সময় ${money(data.total, 'bn')} দিন।` : ''),
+        }),
+        en: data => ({
+            subject: `Order #${data.orderNumber} has been shipped`,
+            text: `Dear ${data.customerName},\n\nYour order #${data.orderNumber} is on its way. ` +
+                (data.paymentMethod === 'cod' ? `Please pay ${money(data.total, 'en')} on delivery.\n` : '\n') +
+                `Track your order: ${orderUrl(data)}\n\nThank you,\n${storeName()}`,
+            sms: `${storeName()}: your order #${data.orderNumber} has been shipped.` +
+                (data.paymentMethod === 'cod' ? ` Please pay ${money(data.total, 'en')} on delivery.` : ''),
+        }),
+    },
+    order_delivered: {
+        bn: data => ({
+            subject: `অর্ডার #${data.orderNumber} ডেলিভারি হয়েছে`,
+            text: `প্রিয় ${data.customerName},\n\nআপনার অর্ডার #${data.orderNumber} ডেলিভারি হয়েছে। ` +
+                `পণ্যগুলো কেমন লাগলো রিভিউ দিয়ে জানান: ${orderUrl(data)}\n\nধন্যবাদ,\n${storeName()}`,
+            sms: `${storeName()}: আপনার অর্ডার #${data.orderNumber} ডেলিভারি হয়েছে। আমাদের সাথে থাকার জন্য ধন্যবাদ!`,
+        }),
+        en: data => ({
+            subject: `Order #${data.orderNumber} has been delivered`,
+            text: `Dear ${data.customerName},\n\nYour order #${data.orderNumber} has been delivered. ` +
+                `Tell us what you think by leaving a review: ${orderUrl(data)}\n\nThank you,\n${storeName()}`,
+            sms: `${storeName()}: your order #${data.orderNumber} has been delivered. Thank you for shopping with us!`,
+        }),
+    },
+    admin_new_order: {
+        bn: data => ({
+            subject: `নতুন অর্ডার #${data.orderNumber} (${money(data.total, 'bn')})`,
+            text: `নতুন অর্ডার #${data.orderNumber}\nকাস্টমার: ${data.customerName} (${data.customerPhone || data.customerEmail})\n` +
+                `পণ্য: ${count(data.itemCount, 'bn')}টি, সর্বমোট ${money(data.total, 'bn')}, পেমেন্ট: ${data.paymentMethod}\n` +
+                `শহর: ${data.city || '-'}`,
+            sms: `নতুন অর্ডার #${data.orderNumber}: ${money(data.total, 'bn')} (${data.paymentMethod}), ${data.customerName}`,
+        }),
+        en: data => ({
+            subject: `New order #${data.orderNumber} (${money(data.total, 'en')})`,
+            text: `New order #${data.orderNumber}\nCustomer: ${data.customerName} (${data.customerPhone || data.customerEmail})\n` +
+                `Items: ${data.itemCount}, total ${money(data.total, 'en')}, payment: ${data.paymentMethod}\n` +
+                `City: ${data.city || '-'}`,
+            sms: `New order #${data.orderNumber}: ${money(data.total, 'en')} (${data.paymentMethod}), ${data.customerName}`,
+        }),
+    },
+    // উইশলিস্টের অ্যালার্ট (productAlerts.ts)
+    back_in_stock: {
+        bn: data => ({
+            subject: `${data.productName} আবার স্টকে এসেছে`,
+            text: `আপনার উইশলিস্টের ${data.productName} আবার পাওয়া যাচ্ছে, দাম ${money(data.price, 'bn')}।\n${productUrl(data)}`,
+            sms: `${storeName()}: ${data.productName} আবার স্টকে এসেছে। ${productUrl(data)}`,
+        }),
+        en: data => ({
+            subject: `${data.productName} is back in stock`,
+            text: `${data.productName} from your wishlist is available again for ${money(data.price, 'en')}.\n${productUrl(data)}`,
+            sms: `${storeName()}: ${data.productName} is back in stock. ${productUrl(data)}`,
+        }),
+    },
+    discount: {
+        bn: data => ({
+            subject: `${data.productName} এ ছাড়!`,
+            text: `আপনার উইশলিস্টের ${data.productName} এখন ${money(data.price, 'bn')} (আগে ${money(data.regularPrice, 'bn')})।\n${productUrl(data)}`,
+            sms: `${storeName()}: ${data.productName} এখন ${money(data.price, 'bn')}। ${productUrl(data)}`,
+        }),
+        en: data => ({
+            subject: `${data.productName} is on sale!`,
+            text: `${data.productName} from your wishlist is now ${money(data.price, 'en')} (was ${money(data.regularPrice, 'en')}).\n${productUrl(data)}`,
+            sms: `${storeName()}: ${data.productName} is now ${money(data.price, 'en')}. ${productUrl(data)}`,
+        }),
+    },
+};
+
+export const hasNotificationTemplate = (type: string) => type in TEMPLATES;
+
+export const renderNotification = (type: string, language: UserLanguage, data: TemplateData): RenderedNotification => {
+    const template = TEMPLATES[type]?.[language];
+    if (!template) throw new Error(`No notification template for '${type}' (${language}).`);
+    return template(data);
+};
@@ -0,0 +1,14 @@
+import { NotificationChannel } from '../../models/NotificationModel';
+
+export interface OutgoingMessage {
+    to: string; // ইমেইল ঠিকানা বা ফোন নম্বর (চ্যানেল অনুযায়ী)
+    subject: string; // SMS এ ব্যবহার হয় না
+    text: string;
+}
+
+// SMTP, SMS গেটওয়ে, কনসোল/ফাইল - প্রতিটি একটি চ্যানেলের জন্য; ব্যর্থ হলে throw করবে, আউটবক্স পরে আবার চেষ্টা করবে
+export interface NotificationTransport {
+    name: string;
+    channel: NotificationChannel;
+    send(message: OutgoingMessage): Promise<void>;
+}
@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Express, Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import Product from '../models/ProductModel';
+import Category from '../models/CategoryModel';
+import Order from '../models/OrderModel';
+import User, { USER_ROLES } from '../models/UserModel';
+import Review from '../models/ReviewModel';
+import Coupon from '../models/CouponModel';
+import DeliveryZone from '../models/DeliveryZoneModel';
+import TaxRule from '../models/TaxRuleModel';
+import Payment from '../models/PaymentModel';
+import ProductAlert from '../models/ProductAlertModel';
+import { getMiddlewareMeta, MiddlewareMeta } from './routeMeta';
+import { getRateLimitRule, RateLimitName } from './rateLimit';
+import { CART_TOKEN_HEADER } from './guestCart';
+import { COMPONENT_SCHEMAS, JsonSchema, ROUTE_DOCS } from './openapiRoutes';
+
+// OpenAPI 3.1 ডকুমেন্ট রুটের আসল সংজ্ঞা থেকে: পাথ আর মেথড Express রাউটার থেকে, body/query/params
+// validate() এর zod স্কিমা থেকে, auth/রোল/আপলোড/রেট লিমিট মিডলওয়্যারের মেটা থেকে (routeMeta.ts),
+// আর রেসপন্সের মডেলগুলো Mongoose স্কিমা থেকে। সারাংশ আর রেসপন্সের আকার openapiRoutes.ts এ।
+
+// ================== MONGOOSE → JSON SCHEMA ==================
+const OBJECT_ID: JsonSchema = { type: 'string', pattern: '^[a-f\\d]{24}$' };
+
+const schemaTypeToJson = (schemaType: any): JsonSchema => {
+    switch (schemaType.instance) {
+        case 'String':
+            return schemaType.enumValues?.length ? { type: 'string', enum: schemaType.enumValues } : { type: 'string' };
+        case 'Number':
+            return { type: 'number' };
+        case 'Boolean':
+            return { type: 'boolean' };
+        case 'Date':
+            return { type: 'string', format: 'date-time' };
+        case 'ObjectId': {
+            const ref = schemaType.options?.ref;
+            return typeof ref === 'string' ? { ...OBJECT_ID, description: `${ref} id, or the ${ref} object when populated.` } : OBJECT_ID;
+        }
+        case 'Array':
+            if (schemaType.schema) return { type: 'array', items: mongooseToJsonSchema(schemaType.schema) };
+            return { type: 'array', items: schemaType.caster ? schemaTypeToJson(schemaType.caster) : {} };
+        case 'Embedded':
+            return mongooseToJsonSchema(schemaType.schema);
+        default:
+            return {}; // Mixed
+    }
+};
+
+// "pricing.regular" এর মতো nested পাথগুলো আবার অবজেক্টে সাজানো; select: false ফিল্ড (passwordHash ...) বাদ
+export const mongooseToJsonSchema = (schema: mongoose.Schema): JsonSchema => {
+    type ObjectNode = { type: 'object'; properties: Record<string, JsonSchema>; required: string[] };
+    const root: ObjectNode = { type: 'object', properties: {}, required: [] };
+
+    schema.eachPath((path, schemaType: any) => {
+        if (path === '__v' || schemaType.options?.select === false) return;
+        const segments = path.split('.');
+        let node = root;
+        for (const segment of segments.slice(0, -1)) {
+            node.properties[segment] ??= { type: 'object', properties: {}, required: [] };
+            node = node.properties[segment] as ObjectNode;
+        }
+        const name = segments[segments.length - 1];
+        node.properties[name] = schemaTypeToJson(schemaType);
+        if (schemaType.isRequired || name === '_id') node.required.push(name);
+    });
+
+    const prune = (node: JsonSchema): JsonSchema => {
+        if (node.type !== 'object' || !node.properties) return node;
+        const { required, properties, ...rest } = node as ObjectNode;
+        return {
+            ...rest,
+            properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, prune(value)])),
+            ...(required.length > 0 ? { required } : {}),
+        };
+    };
+    return prune(root);
+};
+
+const MODEL_COMPONENTS: Record<string, mongoose.Model<any>> = {
+    Product, Category, Order, User, Review, Coupon, DeliveryZone, TaxRule, Payment, ProductAlert,
+};
+
+// ================== ZOD → JSON SCHEMA ==================
+// ক্লায়েন্ট যা পাঠাবে সেটাই দরকার, তাই io: 'input' (যেমন query তে "true"/"false" স্ট্রিং)
+const zodToJsonSchema = (schema: z.ZodType): JsonSchema => {
+    const { $schema, ...json } = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as JsonSchema;
+    return json;
+};
+
+const toParameters = (schema: z.ZodType | undefined, location: 'path' | 'query') => {
+    if (!schema) return [];
+    const json = zodToJsonSchema(schema);
+    const properties = (json.properties || {}) as Record<string, JsonSchema>;
+    const required = (json.required || []) as string[];
+    return Object.entries(properties).map(([name, property]) => ({
+        name,
+        in: location,
+        required: location === 'path' || required.includes(name),
+        schema: property,
+    }));
+};
+
+// ================== OPERATIONS ==================
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+// POST /api/orders/{id}/cancel → postOrdersByIdCancel (টাইপড ক্লায়েন্টের মেথডের নাম)
+const toOperationId = (method: string, path: string) => method + path
+    .split('/')
+    .filter(segment => segment && segment !== 'api')
+    .map(segment => {
+        const param = segment.match(/^\{(\w+)\}$/);
+        const word = param ? `By-${param[1]}` : segment;
+        return word.split(/[-_]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+    })
+    .join('');
+
+// /api/admin/analytics/sales → admin, /api/products/... → products
+const toTag = (path: string) => path.split('/').filter(Boolean).find(segment => segment !== 'api') || 'misc';
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+const mergeMeta = (metas: MiddlewareMeta[]) => ({
+    auth: metas.some(meta => meta.auth),
+    roles: [...new Set(metas.flatMap(meta => meta.roles || []))],
+    schemas: Object.assign({}, ...metas.map(meta => meta.schemas || {})) as NonNullable<MiddlewareMeta['schemas']>,
+    upload: metas.find(meta => meta.upload)?.upload,
+    rateLimits: metas.flatMap(meta => (meta.rateLimit ? [meta.rateLimit as RateLimitName] : [])),
+});
+
+const buildOperation = (method: string, path: string, handlers: Function[]) => {
+    const meta = mergeMeta(handlers.map(handler => getMiddlewareMeta(handler)).filter((m): m is MiddlewareMeta => !!m));
+    const doc = ROUTE_DOCS[`${method.toUpperCase()} ${path}`] || {};
+
+    const declaredParams = toParameters(meta.schemas.params, 'path');
+    const pathParams = [...path.matchAll(/\{(\w+)\}/g)]
+        .map(match => match[1])
+        .filter(name => !declaredParams.some(param => param.name === name))
+        .map(name => ({ name, in: 'path', required: true, schema: { type: 'string' } }));
+    const parameters: JsonSchema[] = [...declaredParams, ...pathParams, ...toParameters(meta.schemas.query, 'query')];
+    if (doc.cartToken) {
+        parameters.push({
+            name: CART_TOKEN_HEADER,
+            in: 'header',
+            required: false,
+            description: 'Guest cart token returned when the guest cart was created.',
+            schema: { type: 'string' },
+        });
+    }
+
+    let requestBody: JsonSchema | undefined;
+    const body = meta.schemas.body ? zodToJsonSchema(meta.schemas.body) : undefined;
+    if (meta.upload) {
+        const file = { type: 'string', format: 'binary' };
+        const bodyProperties = (body?.properties || {}) as Record<string, JsonSchema>;
+        const required = [...((body?.required as string[]) || []), ...(meta.upload.multiple ? [] : [meta.upload.field])];
+        requestBody = {
+            required: true,
+            content: {
+                'multipart/form-data': {
+                    schema: {
+                        type: 'object',
+                        properties: { ...bodyProperties, [meta.upload.field]: meta.upload.multiple ? { type: 'array', items: file } : file },
+                        ...(required.length > 0 ? { required } : {}),
+                    },
+                },
+            },
+        };
+    } else if (body) {
+        requestBody = { required: method !== 'delete', content: { 'application/json': { schema: body } } };
+    }
+
+    const rateLimitNotes = meta.rateLimits.map(name => {
+        const rule = getRateLimitRule(name);
+        return `Rate limited: ${rule.max} requests per ${rule.windowSeconds}s per ${rule.keyBy === 'user' ? 'user' : 'IP'}.`;
+    });
+    const roleNote = meta.roles.length > 0 ? `Requires role: ${meta.roles.join(' or ')}.` : undefined;
+    const description = [doc.description, roleNote, ...rateLimitNotes].filter(Boolean).join('\n\n');
+
+    const successStatus = String(doc.status || 200);
+    const responses: Record<string, JsonSchema> = {
+        [successStatus]: {
+            description: doc.responseDescription || 'Success',
+            ...(doc.contentType
+                ? { content: { [doc.contentType]: { schema: { type: 'string', format: 'binary' } } } }
+                : doc.response ? { content: { 'application/json': { schema: doc.response } } } : {}),
+        },
+    };
+    if (meta.schemas.params || meta.schemas.query || meta.schemas.body || meta.upload) {
+        responses['400'] = errorResponse('Validation failed (code VALIDATION_ERROR or INVALID_ID).');
+    }
+    if (meta.auth) responses['401'] = errorResponse('Missing or invalid access token.');
+    if (meta.roles.length > 0) responses['403'] = errorResponse('The user does not have the required role.');
+    if (meta.rateLimits.length > 0) responses['429'] = errorResponse('Too many requests (see the Retry-After header).');
+    for (const [status, errorDescription] of Object.entries(doc.errors || {})) responses[status] = errorResponse(errorDescription);
+
+    return {
+        operationId: toOperationId(method, path),
+        tags: [doc.tag || toTag(path)],
+        ...(doc.summary ? { summary: doc.summary } : {}),
+        ...(description ? { description } : {}),
+        ...(meta.auth ? { security: [{ bearerAuth: [] }] } : { security: [] }),
+        ...(meta.roles.length > 0 ? { 'x-roles': meta.roles } : {}),
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(requestBody ? { requestBody } : {}),
+        responses,
+    };
+};
+
+// ================== DOCUMENT ==================
+// Express 5 রাউটারের যে অংশটুকু এখানে পড়া হয় (Express এর পাবলিক টাইপে router.stack নেই)
+interface RouterLayer {
+    route?: {
+        path: unknown;
+        methods: Record<string, boolean>;
+        stack: { handle: Function }[];
+    };
+}
+const getRouterLayers = (app: Express) => (app as unknown as { router: { stack: RouterLayer[] } }).router.stack;
+
+let cachedDocument: JsonSchema | null = null;
+
+// রুট রেজিস্টার হওয়ার পরে প্রথম রিকোয়েস্টে একবার তৈরি হয়
+export const getOpenApiDocument = (app: Express) => {
+    if (cachedDocument) return cachedDocument;
+
+    const paths: Record<string, Record<string, JsonSchema>> = {};
+    for (const { route } of getRouterLayers(app)) {
+        if (!route || typeof route.path !== 'string') continue;
+        if (route.path !== '/jwt' && !route.path.startsWith('/api/')) continue;
+        const path = toOpenApiPath(route.path);
+
+        const handlers = route.stack.map(routeLayer => routeLayer.handle);
+        for (const method of Object.keys(route.methods)) {
+            if (ROUTE_DOCS[`${method.toUpperCase()} ${path}`]?.hidden) continue;
+            paths[path] ??= {};
+            paths[path][method] = buildOperation(method, path, handlers);
+        }
+    }
+
+    const apiLimit = getRateLimitRule('api');
+    cachedDocument = {
+        openapi: '3.1.0',
+        info: {
+            title: 'ReadyFood Farm API',
+            version: process.env.npm_package_version || '1.0.0',
+            description: [
+                'Errors always have the shape `{ code, message, fieldErrors?, details? }`.',
+                `All /api routes share a limit of ${apiLimit.max} requests per ${apiLimit.windowSeconds}s per IP.`,
+                `User roles: ${USER_ROLES.join(', ')}. admin passes every role check.`,
+            ].join('\n\n'),
+        },
+        servers: [{ url: process.env.PUBLIC_BASE_URL || '/' }],
+        paths,
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'Access token from /jwt, /api/auth/login or /api/auth/refresh.' },
+            },
+            schemas: {
+                ...Object.fromEntries(Object.entries(MODEL_COMPONENTS).map(([name, model]) => [name, mongooseToJsonSchema(model.schema)])),
+                ...COMPONENT_SCHEMAS,
+            },
+        },
+    };
+    return cachedDocument;
+};
+
+// ================== DOCS UI ==================
+// Swagger UI এর ফাইলগুলো swagger-ui-dist প্যাকেজ থেকে নিজেদের সার্ভারেই (বাইরের CDN এর স্ক্রিপ্ট চালানো হয় না)
+export const SWAGGER_UI_ASSETS_PATH = '/api/docs/assets';
+export const getSwaggerUiAssetsDir = () => path.dirname(require.resolve('swagger-ui-dist/package.json'));
+
+// শুধু এই পেজে securityHeaders এর কড়া CSP একটু শিথিল করা হয়: নিজেদের স্ক্রিপ্ট আর nonce সহ ইনলাইন স্ক্রিপ্ট
+export const sendApiDocsPage = (res: Response, specUrl: string) => {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    res.setHeader('Content-Security-Policy', [
+        "default-src 'none'",
+        `script-src 'self' 'nonce-${nonce}'`,
+        "style-src 'self' 'unsafe-inline'",
+        "img-src 'self' data:",
+        "connect-src 'self'",
+        "frame-ancestors 'none'",
+    ].join('; '));
+    res.status(200).type('html').send(`<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ReadyFood Farm API</title>
+<link rel="stylesheet" href="${SWAGGER_UI_ASSETS_PATH}/swagger-ui.css">
+</head>
+<body>
+<div id="swagger-ui"></div>
+<script src="${SWAGGER_UI_ASSETS_PATH}/swagger-ui-bundle.js"></script>
+<script nonce="${nonce}">
+window.ui = SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#swagger-ui', persistAuthorization: true });
+</script>
+</body>
+</html>`);
+};
@@ -0,0 +1,492 @@
+// OpenAPI ডকুমেন্টের যে অংশ কোড থেকে বের করা যায় না: রুটের সারাংশ, রেসপন্সের আকার আর বিশেষ এররগুলো।
+// নতুন রুট যোগ করলে এখানে "METHOD /path/{param}" key দিয়ে এন্ট্রি দিন; না দিলেও রুটটি ডকে আসবে
+// (body/query/params আর auth সহ), শুধু সারাংশ আর রেসপন্সের আকার থাকবে না।
+export type JsonSchema = Record<string, unknown>;
+
+export interface RouteDoc {
+    summary?: string;
+    description?: string;
+    tag?: string;
+    status?: number; // সফল রেসপন্সের স্ট্যাটাস (ডিফল্ট 200)
+    response?: JsonSchema;
+    responseDescription?: string;
+    contentType?: string; // JSON ছাড়া অন্য কিছু (PDF, CSV ...)
+    errors?: Record<number, string>; // 400/401/403/429 নিজে থেকেই যোগ হয়
+    cartToken?: boolean; // X-Cart-Token হেডার পড়ে
+    hidden?: boolean;
+}
+
+// ================== HELPERS ==================
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const listOf = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+const objectOf = (properties: Record<string, JsonSchema>, required = Object.keys(properties)): JsonSchema =>
+    ({ type: 'object', properties, required });
+const nullable = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: 'null' }] });
+const string: JsonSchema = { type: 'string' };
+const number: JsonSchema = { type: 'number' };
+const integer: JsonSchema = { type: 'integer' };
+const boolean: JsonSchema = { type: 'boolean' };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+const objectId: JsonSchema = { type: 'string', pattern: '^[a-f\\d]{24}$' };
+
+const message = ref('Message');
+const withPagination = (key: string, items: JsonSchema) => objectOf({ [key]: listOf(items), pagination: ref('Pagination') });
+
+// ================== COMPONENTS ==================
+// Mongoose মডেলগুলো (Product, Order ...) openapi.ts নিজেই যোগ করে; এগুলো রুটের নিজস্ব রেসপন্স
+export const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+    Error: objectOf({
+        code: { ...string, description: 'Machine readable code, e.g. VALIDATION_ERROR, OUT_OF_STOCK.' },
+        message: string,
+        fieldErrors: listOf(objectOf({ field: { ...string, description: 'e.g. body.pricing.regular, params.id' }, message: string })),
+        details: { type: 'object', description: 'Extra data for some errors, e.g. the cart summary for CART_CHANGED.' },
+    }, ['code', 'message']),
+    Message: objectOf({ message: string }),
+    Pagination: objectOf({ page: integer, limit: integer, total: integer, totalPages: integer }),
+    AuthTokens: objectOf({
+        token: { ...string, description: 'Access token (1 hour). Send as `Authorization: Bearer <token>`.' },
+        refreshToken: string,
+        cartMerged: { ...boolean, description: 'Whether a guest cart sent via X-Cart-Token was merged into the account.' },
+    }, ['token', 'refreshToken']),
+    CartLineIssue: objectOf({
+        code: { type: 'string', enum: ['product_removed', 'variant_removed', 'inactive', 'out_of_stock', 'insufficient_stock', 'price_changed'] },
+        message: string,
+    }),
+    CartLine: objectOf({
+        product: nullable(ref('Product')),
+        productId: objectId,
+        variant: nullable(objectId),
+        variantLabel: string,
+        sku: string,
+        quantity: integer,
+        unitPrice: nullable(number),
+        previousPrice: { ...nullable(number), description: 'Price when the line was added, if it has changed since.' },
+        lineTotal: number,
+        available: { ...integer, description: 'Units currently in stock.' },
+        issues: listOf(ref('CartLineIssue')),
+    }, ['product', 'productId', 'variant', 'quantity', 'unitPrice', 'lineTotal', 'available', 'issues']),
+    CartSummary: objectOf({
+        items: listOf(ref('CartLine')),
+        itemCount: integer,
+        subtotal: { ...number, description: 'Sum of purchasable lines only.' },
+        hasIssues: boolean,
+    }),
+    GuestCart: {
+        allOf: [
+            ref('CartSummary'),
+            objectOf({
+                cartToken: { ...string, description: 'Only returned when a new guest cart was created (201).' },
+                expiresAt: nullable(dateTime),
+            }, ['expiresAt']),
+        ],
+    },
+    CheckoutTotals: objectOf({
+        subtotal: number,
+        discount: number,
+        shippingFee: number,
+        tax: number,
+        grandTotal: number,
+        deliveryZone: objectOf({ _id: objectId, name: string, estimatedDays: string }, ['_id', 'name']),
+        freeShippingApplied: boolean,
+        taxBreakdown: listOf(objectOf({ name: string, rate: number, taxableAmount: number, amount: number })),
+        coupon: { ...nullable({ type: 'object' }), description: 'Applied coupon breakdown (same shape as Order.coupon).' },
+    }),
+    CategoryTreeNode: objectOf({
+        _id: objectId,
+        name: string,
+        slug: string,
+        image: nullable(string),
+        isNav: boolean,
+        productCount: { ...integer, description: 'Products directly in this category.' },
+        totalProductCount: { ...integer, description: 'Including all subcategories.' },
+        children: listOf(ref('CategoryTreeNode')),
+    }, ['_id', 'name', 'slug', 'isNav', 'productCount', 'totalProductCount', 'children']),
+    ProductList: objectOf({
+        products: listOf(ref('Product')),
+        pagination: ref('Pagination'),
+        facets: objectOf({
+            brands: listOf(objectOf({ brand: string, count: integer })),
+            categories: listOf(objectOf({ _id: objectId, name: string, slug: string, parentId: nullable(objectId), count: integer })),
+            priceBuckets: listOf(objectOf({ min: number, max: nullable(number), count: integer })),
+        }),
+    }),
+    StoredImage: objectOf({ url: string, thumbnailUrl: string }),
+    ImportReport: objectOf({
+        dryRun: boolean,
+        applied: boolean,
+        total: integer,
+        created: integer,
+        updated: integer,
+        failed: integer,
+        rows: listOf(objectOf({
+            row: { ...integer, description: 'Spreadsheet line number (the header is line 1).' },
+            action: { type: 'string', enum: ['create', 'update', 'add_variant', 'update_variant', 'skip'] },
+            slug: string,
+            sku: string,
+            errors: listOf(string),
+        }, ['row', 'action', 'errors'])),
+    }),
+};
+
+// ================== ROUTES ==================
+const cartChanged = { 404: 'Product or variant not found.', 409: 'Not enough stock (code OUT_OF_STOCK or INSUFFICIENT_STOCK).' };
+const dateRange = 'Defaults to the last 30 days. Cancelled orders are never counted.';
+
+export const ROUTE_DOCS: Record<string, RouteDoc> = {
+    // ---------- Auth ----------
+    'POST /jwt': {
+        tag: 'auth',
+        summary: 'Exchange a Firebase ID token for API tokens',
+        response: ref('AuthTokens'),
+        errors: { 401: 'Invalid ID token.', 404: 'User not registered.', 501: 'ID token login is not configured.' },
+        cartToken: true,
+    },
+    'POST /api/auth/login': { summary: 'Log in with email and password', response: ref('AuthTokens'), errors: { 401: 'Invalid email or password.' }, cartToken: true },
+    'POST /api/auth/refresh': {
+        summary: 'Rotate a refresh token',
+        description: 'The old refresh token is revoked. Reusing a revoked token revokes the whole token family.',
+        response: ref('AuthTokens'),
+        errors: { 401: 'Invalid refresh token.' },
+    },
+    'POST /api/auth/logout': { summary: 'Revoke a refresh token', response: message },
+    'POST /api/auth/logout-all': { summary: 'Revoke all refresh tokens of the current user', response: message },
+
+    // ---------- Users & profile ----------
+    'GET /api/users': { summary: 'List all users', response: listOf(ref('User')) },
+    'POST /api/users': {
+        summary: 'Sign up',
+        description: 'Send exactly one of `idToken` (Firebase account; uid and email are taken from the verified token) or `password` (local account). Returns 200 with a message if the email already exists.',
+        errors: { 401: 'Invalid ID token.', 501: 'ID token login is not configured.' },
+        status: 201,
+        response: ref('User'),
+        cartToken: true,
+    },
+    'GET /api/users/me': { summary: 'Get the current user profile', description: 'cart and wishlist are not included.', response: ref('User'), errors: { 404: 'User not found.' } },
+    'PATCH /api/users/me': {
+        summary: 'Update name, phone, image or notification language',
+        description: 'Any other field (role, email ...) is rejected with 400.',
+        response: ref('User'),
+    },
+    'DELETE /api/users/me': {
+        summary: 'Delete the current account',
+        description: 'Orders are kept but anonymised. Local accounts must confirm with `password`.',
+        response: message,
+        errors: { 401: 'Password is incorrect.', 409: 'The user has orders in progress (code ACCOUNT_HAS_OPEN_ORDERS).' },
+    },
+    'GET /api/users/me/addresses': { summary: 'List saved addresses', response: { type: 'array', items: { type: 'object' }, description: 'Same shape as User.addresses.' } },
+    'POST /api/users/me/addresses': {
+        summary: 'Add an address',
+        description: 'The first address, or one sent with `isDefault: true`, becomes the default. Returns the whole address book.',
+        status: 201,
+        response: { type: 'array', items: { type: 'object' } },
+    },
+    'PATCH /api/users/me/addresses/{addressId}': { summary: 'Update an address', response: { type: 'array', items: { type: 'object' } }, errors: { 404: 'Address not found.' } },
+    'DELETE /api/users/me/addresses/{addressId}': {
+        summary: 'Delete an address',
+        description: 'If the default address is deleted, the first remaining address becomes the default.',
+        response: { type: 'array', items: { type: 'object' } },
+        errors: { 404: 'Address not found.' },
+    },
+    'GET /api/users/admin/{email}': {
+        summary: 'Get the role of the current user',
+        description: '`email` must be the email of the logged in user.',
+        response: objectOf({ isAdmin: boolean, role: nullable(string) }),
+    },
+    'PATCH /api/users/{id}/role': { summary: 'Change a user role', response: ref('User'), errors: { 404: 'User not found.' } },
+
+    // ---------- Cart & wishlist ----------
+    'GET /api/cart': { summary: 'Get the cart with totals and per-line issues', response: ref('CartSummary') },
+    'POST /api/cart': {
+        summary: 'Add a product to the cart or set its quantity',
+        description: 'Without `quantity` the line is incremented by 1. With `quantity` the line is set to exactly that amount, and `0` removes it. `variantId` selects a variant; without it the default variant is used.',
+        response: ref('CartSummary'),
+        errors: cartChanged,
+    },
+    'POST /api/cart/sync': {
+        summary: 'Resolve cart issues',
+        description: 'Removes unavailable lines, caps quantities at the available stock and accepts current prices.',
+        response: { allOf: [ref('CartSummary'), objectOf({ resolvedIssues: listOf(ref('CartLine')) })] },
+    },
+    'DELETE /api/cart/{productId}': {
+        summary: 'Remove a product from the cart',
+        description: 'With `variantId` only that variant line is removed, otherwise all lines of the product.',
+        response: ref('CartSummary'),
+    },
+    'POST /api/cart/apply-coupon': {
+        summary: 'Preview a coupon on the current cart',
+        description: 'The coupon is not redeemed here; send it again as `couponCode` when placing the order.',
+        response: objectOf({ code: string, subtotal: number, discount: number, total: number, breakdown: { type: 'object' } }),
+        errors: { 400: 'Cart is empty or the coupon is not valid (code COUPON_INVALID).' },
+    },
+    'GET /api/wishlist': { summary: 'Get the wishlist', response: listOf(ref('Product')) },
+    'POST /api/wishlist': { summary: 'Add a product to the wishlist', response: listOf(ref('Product')) },
+    'DELETE /api/wishlist/{productId}': { summary: 'Remove a product from the wishlist', description: 'Also removes its alert subscription.', response: listOf(ref('Product')) },
+    'POST /api/wishlist/{productId}/move-to-cart': {
+        summary: 'Move a wishlist product to the cart',
+        response: objectOf({ cart: ref('CartSummary'), wishlist: listOf(ref('Product')) }),
+        errors: { 404: 'Product is not in the wishlist.', 409: cartChanged[409] },
+    },
+    'PUT /api/wishlist/{productId}/alerts': {
+        summary: 'Subscribe to back-in-stock or discount alerts',
+        description: 'An empty `types` array unsubscribes. The product is added to the wishlist if needed.',
+        response: ref('ProductAlert'),
+        errors: { 404: 'Product not found.' },
+    },
+    'GET /api/wishlist/alerts': { summary: 'List alert subscriptions', response: listOf(ref('ProductAlert')) },
+
+    // ---------- Guest cart ----------
+    'GET /api/guest/cart': { tag: 'guest', summary: 'Get the guest cart', response: ref('GuestCart'), errors: { 404: 'Guest cart not found or expired.' }, cartToken: true },
+    'POST /api/guest/cart': {
+        tag: 'guest',
+        summary: 'Add to the guest cart (creates it on first use)',
+        description: 'Same quantity rules as POST /api/cart. Responds 201 with a new `cartToken` when a cart was created; send it as X-Cart-Token afterwards.',
+        response: ref('GuestCart'),
+        errors: cartChanged,
+        cartToken: true,
+    },
+    'POST /api/guest/cart/sync': {
+        tag: 'guest',
+        summary: 'Resolve guest cart issues',
+        response: { allOf: [ref('CartSummary'), objectOf({ resolvedIssues: listOf(ref('CartLine')) })] },
+        errors: { 404: 'Guest cart not found or expired.' },
+        cartToken: true,
+    },
+    'DELETE /api/guest/cart/{productId}': { tag: 'guest', summary: 'Remove a product from the guest cart', response: ref('CartSummary'), errors: { 404: 'Guest cart not found or expired.' }, cartToken: true },
+    'GET /api/guest/wishlist': { tag: 'guest', summary: 'Get the guest wishlist', response: listOf(ref('Product')), cartToken: true },
+    'POST /api/guest/wishlist': {
+        tag: 'guest',
+        summary: 'Add to the guest wishlist',
+        response: objectOf({ cartToken: string, wishlist: listOf(ref('Product')) }, ['wishlist']),
+        errors: { 404: 'Product not found.' },
+        cartToken: true,
+    },
+
+    // ---------- Categories ----------
+    'GET /api/categories': { summary: 'List all categories (flat)', response: listOf(ref('Category')) },
+    'GET /api/categories/tree': { summary: 'Category tree with product counts', response: listOf(ref('CategoryTreeNode')) },
+    'POST /api/categories': { summary: 'Create a category', status: 201, response: ref('Category'), errors: { 409: 'A category with this name already exists.' } },
+    'PATCH /api/categories/{id}': { summary: 'Update a category', description: 'Renaming also changes the slug.', response: ref('Category'), errors: { 404: 'Category not found.' } },
+    'PATCH /api/categories/{id}/nav-status': { summary: 'Show or hide a category in the navbar', response: ref('Category') },
+    'POST /api/categories/{id}/image': {
+        summary: 'Upload a category image',
+        description: 'Replaces (and deletes) the previous uploaded image.',
+        response: objectOf({ category: ref('Category'), uploaded: ref('StoredImage') }),
+        errors: { 404: 'Category not found.', 413: 'Image is too large.' },
+    },
+    'DELETE /api/categories/{id}': {
+        summary: 'Delete a category',
+        description: 'Fails with 409 when it has subcategories or products, unless `cascade=true` (deletes the subtree and its products).',
+        response: objectOf({ message: string, deletedCategories: integer, deletedProducts: integer }),
+        errors: { 404: 'Category not found.', 409: 'Category is not empty (code CATEGORY_NOT_EMPTY, details { childCount, productCount }).' },
+    },
+
+    // ---------- Products ----------
+    'GET /api/products/category-by-slug/{slug}': {
+        summary: 'Products of a category (including subcategories)',
+        response: objectOf({
+            categoryName: string,
+            breadcrumbs: listOf(objectOf({ _id: objectId, name: string, slug: string })),
+            subcategories: listOf(objectOf({ _id: objectId, name: string, slug: string, image: nullable(string) }, ['_id', 'name', 'slug'])),
+            products: listOf(ref('Product')),
+        }),
+        errors: { 404: 'Category not found.' },
+    },
+    'GET /api/products': {
+        summary: 'Search and filter products',
+        description: '`category` accepts an id or slug and includes subcategories. `brand` is comma separated. `sort=relevance` needs `search` and is the default when searching.',
+        response: ref('ProductList'),
+        errors: { 404: 'Category not found.' },
+    },
+    'GET /api/products/suggest': {
+        summary: 'Typeahead suggestions',
+        description: 'Returns an empty list for queries shorter than 2 characters.',
+        response: listOf(objectOf({ _id: objectId, name: string, slug: string, brand: string, categoryName: string, image: string, pricing: { type: 'object' } }, ['_id', 'name', 'slug'])),
+    },
+    'GET /api/products/deals': { summary: 'Up to 10 discounted products', response: listOf(ref('Product')) },
+    'GET /api/products/export': { summary: 'Export products as CSV or XLSX', description: 'The file can be edited and imported again.', contentType: 'application/octet-stream', errors: { 404: 'Category not found.' } },
+    'GET /api/products/{slug}': { summary: 'Get a product by slug', response: ref('Product'), errors: { 404: 'Product not found.' } },
+    'GET /api/products/category/{categoryId}': { summary: 'Related products of a category', response: listOf(ref('Product')) },
+    'POST /api/products': { summary: 'Create a product', description: 'The slug is generated from the name.', status: 201, response: ref('Product') },
+    'DELETE /api/products/{id}': { summary: 'Delete a product with its reviews and images', response: message, errors: { 404: 'Product not found.' } },
+    'PATCH /api/products/status/{id}': { summary: 'Activate or deactivate a product', response: ref('Product'), errors: { 404: 'Product not found.' } },
+    'PATCH /api/products/{id}': {
+        summary: 'Update a product',
+        description: 'Images removed from `images` are deleted from storage. Stock or price changes trigger wishlist alerts.',
+        response: ref('Product'),
+        errors: { 404: 'Product not found.' },
+    },
+    'POST /api/products/import': {
+        summary: 'Bulk import products from CSV or XLSX',
+        description: 'Rows are matched by SKU or slug. With `dryRun=true` nothing is saved. If any row has errors nothing is saved and the response is 422. All saves run in one transaction (needs a MongoDB replica set), so a duplicate slug/SKU created meanwhile also rejects the whole file.',
+        response: ref('ImportReport'),
+        errors: { 413: 'File is too large.', 422: 'Some rows have errors; nothing was imported.' },
+    },
+    'POST /api/products/{id}/images': {
+        summary: 'Upload product images',
+        description: 'Images are appended to `images`.',
+        status: 201,
+        response: objectOf({ product: ref('Product'), uploaded: listOf(ref('StoredImage')) }),
+        errors: { 404: 'Product not found.', 413: 'Image is too large.' },
+    },
+    'DELETE /api/products/{id}/images': { summary: 'Remove one product image', response: ref('Product'), errors: { 404: 'Product or image not found.' } },
+
+    // ---------- Reviews ----------
+    'GET /api/products/{productId}/reviews': { tag: 'reviews', summary: 'Public reviews of a product', response: withPagination('reviews', ref('Review')) },
+    'POST /api/products/{productId}/reviews': {
+        tag: 'reviews',
+        summary: 'Review a delivered product',
+        status: 201,
+        response: ref('Review'),
+        errors: { 403: 'Only customers who received the product can review it.', 404: 'Product not found.', 409: 'Already reviewed.' },
+    },
+    'PATCH /api/reviews/{id}': { summary: 'Edit your review', response: ref('Review'), errors: { 404: 'Review not found.' } },
+    'DELETE /api/reviews/{id}': { summary: 'Delete your review (or any review as a moderator)', response: message, errors: { 404: 'Review not found.' } },
+    'GET /api/reviews': { summary: 'List reviews for moderation (latest 200)', response: listOf(ref('Review')) },
+    'PATCH /api/reviews/{id}/moderation': { summary: 'Hide or unhide a review', response: ref('Review'), errors: { 404: 'Review not found.' } },
+
+    // ---------- Coupons, delivery & tax ----------
+    'GET /api/coupons': { summary: 'List coupons', response: listOf(ref('Coupon')) },
+    'POST /api/coupons': { summary: 'Create a coupon', status: 201, response: ref('Coupon'), errors: { 409: 'Coupon code already exists.' } },
+    'PATCH /api/coupons/{id}': { summary: 'Update a coupon', response: ref('Coupon'), errors: { 404: 'Coupon not found.' } },
+    'DELETE /api/coupons/{id}': { summary: 'Delete a coupon', response: message, errors: { 404: 'Coupon not found.' } },
+    'POST /api/checkout/quote': {
+        summary: 'Price the current cart before ordering',
+        description: 'Shipping address: `addressId` from the address book, else `shippingAddress`, else the default address. With no active delivery zones the fee is `DEFAULT_SHIPPING_FEE` and `deliveryZone` is null.',
+        response: ref('CheckoutTotals'),
+        errors: { 400: 'Cart is empty, no delivery to this area (code CHECKOUT_INVALID) or invalid coupon.', 404: 'Address not found.' },
+    },
+    'GET /api/delivery-zones': { summary: 'List active delivery zones', response: listOf(ref('DeliveryZone')) },
+    'POST /api/delivery-zones': { summary: 'Create a delivery zone', status: 201, response: ref('DeliveryZone') },
+    'PATCH /api/delivery-zones/{id}': { summary: 'Update a delivery zone', response: ref('DeliveryZone'), errors: { 404: 'Delivery zone not found.' } },
+    'DELETE /api/delivery-zones/{id}': { summary: 'Delete a delivery zone', response: message, errors: { 404: 'Delivery zone not found.' } },
+    'GET /api/tax-rules': { summary: 'List tax rules', response: listOf(ref('TaxRule')) },
+    'POST /api/tax-rules': { summary: 'Create a tax rule', status: 201, response: ref('TaxRule') },
+    'PATCH /api/tax-rules/{id}': { summary: 'Update a tax rule', response: ref('TaxRule'), errors: { 404: 'Tax rule not found.' } },
+    'DELETE /api/tax-rules/{id}': { summary: 'Delete a tax rule', response: message, errors: { 404: 'Tax rule not found.' } },
+
+    // ---------- Orders ----------
+    'GET /api/orders': { summary: 'List all orders', response: listOf(ref('Order')) },
+    'POST /api/orders': {
+        summary: 'Place an order from the cart',
+        description: 'Uses the same pricing as /api/checkout/quote. `paymentMethod` defaults to `cod`; for online payment call /api/payments/initiate next.',
+        status: 201,
+        response: objectOf({ message: string, order: ref('Order') }),
+        errors: {
+            404: 'Address not found.',
+            409: 'Cart changed (code CART_CHANGED, details.cart) or items out of stock (code OUT_OF_STOCK, details.errors).',
+            429: 'Too many requests, too many recent orders (ORDER_RATE_LIMITED) or too many pending COD orders (TOO_MANY_PENDING_COD_ORDERS).',
+        },
+    },
+    'PATCH /api/orders/{id}/status': {
+        summary: 'Change the order status',
+        response: ref('Order'),
+        errors: { 400: 'Transition not allowed (code INVALID_STATUS_TRANSITION).', 404: 'Order not found.', 409: 'Status was changed concurrently.' },
+    },
+    'GET /api/orders/my-orders': { summary: 'Orders of the current user', response: listOf(ref('Order')) },
+    'GET /api/orders/returns': { summary: 'Orders with return requests', response: listOf(ref('Order')) },
+    'GET /api/orders/packing-slips': { summary: 'Packing slips for all processing orders', contentType: 'application/pdf', errors: { 404: 'No orders are waiting to be packed.' } },
+    'GET /api/orders/export': { summary: 'Export orders as CSV', description: 'Defaults to the last 30 days.', contentType: 'text/csv' },
+    'GET /api/orders/{id}/invoice': { summary: 'PDF invoice of an order (owner or staff)', contentType: 'application/pdf', errors: { 403: 'Not your order.', 404: 'Order not found.' } },
+    'GET /api/orders/{id}': { summary: 'Get an order with its timeline (owner or staff)', response: ref('Order'), errors: { 403: 'Not your order.', 404: 'Order not found.' } },
+    'POST /api/orders/{id}/cancel': {
+        summary: 'Cancel your order',
+        description: 'Only while the order is pending or processing. Stock and coupon usage are released.',
+        response: ref('Order'),
+        errors: { 404: 'Order not found.', 409: 'Status was changed concurrently.' },
+    },
+    'POST /api/orders/{id}/returns': {
+        summary: 'Request a return for a delivered order',
+        status: 201,
+        response: ref('Order'),
+        errors: { 404: 'Order not found.', 409: 'Order was changed concurrently.' },
+    },
+    'PATCH /api/orders/{id}/returns/{returnId}': {
+        summary: 'Approve or reject a return request',
+        description: '`restock` defaults to true when approving.',
+        response: ref('Order'),
+        errors: { 404: 'Order not found.', 409: 'Return request was changed concurrently.' },
+    },
+
+    // ---------- Payments ----------
+    'POST /api/payments/initiate': {
+        summary: 'Start an online payment for an order',
+        description: 'Redirect the customer to `redirectUrl` when it is present.',
+        status: 201,
+        response: objectOf({ payment: ref('Payment'), redirectUrl: nullable(string) }),
+        errors: { 404: 'Order not found.' },
+    },
+    'POST /api/payments/webhook/{provider}': {
+        summary: 'Payment gateway webhook (server to server)',
+        description: 'The body format and signature depend on the provider.',
+        response: objectOf({ received: boolean, duplicate: boolean, status: string }),
+        errors: { 400: 'Signature or payload is invalid (code PAYMENT_VERIFICATION_FAILED).', 404: 'Unknown provider or payment.' },
+    },
+    'POST /api/payments/callback/{provider}/{result}': {
+        summary: 'Browser return URL from the payment gateway',
+        description: 'Redirects to the frontend /payment/success, /payment/failed or /payment/cancelled page. `result` is `success`, `fail` or `cancel`.',
+        status: 303,
+        responseDescription: 'Redirect to the frontend.',
+        errors: { 400: 'Invalid provider or result in the URL.' },
+    },
+    'GET /api/payments/order/{orderId}': { summary: 'Payments of an order (owner or staff)', response: listOf(ref('Payment')), errors: { 403: 'Not your order.', 404: 'Order not found.' } },
+    'GET /api/payments/mock/checkout/{transactionId}': {
+        summary: 'Mock gateway payment details (development only)',
+        description: 'Only when `ENABLE_MOCK_PAYMENTS=true` and `MOCK_PAYMENT_SECRET` is set. Owner of the payment or admin.',
+        response: objectOf({ transactionId: string, amount: number, currency: string, status: string, simulateUrl: string }),
+        errors: { 404: 'Mock payments are disabled or payment not found.' },
+    },
+    'POST /api/payments/mock/{transactionId}/simulate': {
+        summary: 'Simulate a signed mock gateway webhook (development only)',
+        description: 'Owner of the payment or admin. `amount` defaults to the full payment amount.',
+        response: objectOf({ payment: nullable(ref('Payment')), duplicate: boolean }, ['payment']),
+        errors: { 404: 'Mock payments are disabled or payment not found.' },
+    },
+
+    // ---------- Admin analytics ----------
+    'GET /api/admin/analytics/summary': {
+        summary: 'Revenue, orders and average order value',
+        description: dateRange,
+        response: objectOf({ from: dateTime, to: dateTime, revenue: number, orders: integer, averageOrderValue: number, itemsSold: integer, discount: number, shippingFees: number, tax: number }),
+    },
+    'GET /api/admin/analytics/sales': {
+        summary: 'Sales timeline by day, week or month',
+        description: dateRange,
+        response: objectOf({
+            from: dateTime,
+            to: dateTime,
+            interval: string,
+            timeline: listOf(objectOf({ period: dateTime, revenue: number, orders: integer, averageOrderValue: number })),
+        }),
+    },
+    'GET /api/admin/analytics/top-products': {
+        summary: 'Best selling products',
+        description: dateRange,
+        response: listOf(objectOf({ product: objectId, name: nullable(string), slug: nullable(string), quantity: integer, revenue: number, orders: integer })),
+    },
+    'GET /api/admin/analytics/top-categories': {
+        summary: 'Best selling categories',
+        description: dateRange,
+        response: listOf(objectOf({ category: objectId, name: nullable(string), slug: nullable(string), quantity: integer, revenue: number, orders: integer })),
+    },
+    'GET /api/admin/analytics/status-funnel': {
+        summary: 'Order and payment status counts',
+        description: dateRange,
+        response: objectOf({ orderStatus: { type: 'object', additionalProperties: integer }, paymentStatus: { type: 'object', additionalProperties: integer }, cancelled: integer }),
+    },
+    'GET /api/admin/analytics/customers': {
+        summary: 'New vs returning customers',
+        description: dateRange,
+        response: objectOf({
+            new: objectOf({ customers: integer, orders: integer, revenue: number }),
+            returning: objectOf({ customers: integer, orders: integer, revenue: number }),
+        }),
+    },
+    'GET /api/admin/analytics/low-stock': {
+        summary: 'Active products at or below the stock threshold',
+        response: objectOf({ threshold: integer, products: listOf({ type: 'object' }) }),
+    },
+
+    // ---------- Docs ----------
+    'GET /api/openapi.json': { hidden: true },
+    'GET /api/docs': { hidden: true },
+};
@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import Order from '../models/OrderModel';
+import { changeOrderStatus, OrderTransitionError } from './orders';
+import { releaseStock } from './inventory';
+import { releaseCoupon } from './coupons';
+import { markCashOnDeliveryPaid } from './payments';
+import { notifyRestockedProducts } from './productAlerts';
+import { notifyOrderStatusChanged } from './notifications';
+
+jest.mock('./inventory');
+jest.mock('./coupons');
+jest.mock('./payments');
+jest.mock('./productAlerts');
+jest.mock('./notifications');
+
+const actorId = new mongoose.Types.ObjectId() as any;
+const order = (overrides: Record<string, unknown> = {}) => ({
+    _id: new mongoose.Types.ObjectId(),
+    user: new mongoose.Types.ObjectId(),
+    orderStatus: 'pending',
+    paymentStatus: 'pending',
+    paymentMethod: 'cod',
+    items: [{ product: new mongoose.Types.ObjectId(), quantity: 2 }],
+    coupon: null,
+    ...overrides,
+} as any);
+
+describe('changeOrderStatus', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.clearAllMocks();
+    });
+
+    it('rejects a transition that is not allowed', async () => {
+        const update = jest.spyOn(Order, 'findOneAndUpdate');
+
+        await expect(changeOrderStatus(order({ orderStatus: 'delivered' }), 'pending', actorId)).rejects.toBeInstanceOf(OrderTransitionError);
+        expect(update).not.toHaveBeenCalled();
+    });
+
+    it('updates only if nobody changed the status meanwhile and records history', async () => {
+        const current = order();
+        const update = jest.spyOn(Order, 'findOneAndUpdate').mockResolvedValue({ ...current, orderStatus: 'processing' });
+
+        const updated = await changeOrderStatus(current, 'processing', actorId, 'packed');
+
+        expect(updated?.orderStatus).toBe('processing');
+        const [filter, change] = update.mock.calls[0] as any[];
+        expect(filter).toEqual({ _id: current._id, orderStatus: 'pending' });
+        expect(change.$set).toEqual({ orderStatus: 'processing' });
+        expect(change.$push.statusHistory).toMatchObject({ status: 'processing', changedBy: actorId, note: 'packed' });
+        expect(releaseStock).not.toHaveBeenCalled();
+    });
+
+    it('returns null without side effects when it lost a race', async () => {
+        jest.spyOn(Order, 'findOneAndUpdate').mockResolvedValue(null);
+
+        expect(await changeOrderStatus(order(), 'cancelled', actorId)).toBeNull();
+        expect(releaseStock).not.toHaveBeenCalled();
+        expect(notifyOrderStatusChanged).not.toHaveBeenCalled();
+    });
+
+    it('restores stock and the coupon on cancellation, refunding paid orders', async () => {
+        const coupon = { coupon: new mongoose.Types.ObjectId() };
+        const current = order({ orderStatus: 'processing', paymentStatus: 'paid', coupon });
+        const cancelled = { ...current, orderStatus: 'cancelled', paymentStatus: 'refunded' };
+        const update = jest.spyOn(Order, 'findOneAndUpdate').mockResolvedValue(cancelled);
+
+        await changeOrderStatus(current, 'cancelled', actorId);
+
+        expect((update.mock.calls[0] as any[])[1].$set).toEqual({ orderStatus: 'cancelled', paymentStatus: 'refunded' });
+        expect(releaseStock).toHaveBeenCalledWith(current.items);
+        expect(notifyRestockedProducts).toHaveBeenCalledWith(current.items);
+        expect(releaseCoupon).toHaveBeenCalledWith(coupon.coupon, current.user);
+    });
+
+    it('marks cash on delivery paid and notifies the customer on delivery', async () => {
+        const current = order({ orderStatus: 'shipped' });
+        const delivered = { ...current, orderStatus: 'delivered' };
+        jest.spyOn(Order, 'findOneAndUpdate').mockResolvedValue(delivered);
+
+        await changeOrderStatus(current, 'delivered', actorId);
+
+        expect(markCashOnDeliveryPaid).toHaveBeenCalledWith(delivered);
+        expect(notifyOrderStatusChanged).toHaveBeenCalledWith(delivered);
+        expect(releaseStock).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,202 @@
+import Order, {
+    IOrder,
+    IOrderStatusHistory,
+    IReturnRequest,
+    OrderStatus,
+    canTransitionOrderStatus,
+} from '../models/OrderModel';
+import { releaseStock } from './inventory';
+import { releaseCoupon } from './coupons';
+import { markCashOnDeliveryPaid } from './payments';
+import { lineKey } from './variants';
+import { notifyRestockedProducts } from './productAlerts';
+import { notifyOrderStatusChanged } from './notifications';
+import { ApiError } from './errors';
+import type { ReturnRequestInput } from './schemas';
+
+export class OrderTransitionError extends ApiError {
+    constructor(public from: OrderStatus, public to: OrderStatus) {
+        super(400, `Cannot change order status from '${from}' to '${to}'.`, { code: 'INVALID_STATUS_TRANSITION' });
+    }
+}
+
+// স্ট্যাটাস বদলানো + টাইমলাইনে এন্ট্রি যোগ করা হয় একটি শর্তসাপেক্ষ আপডেটে।
+// মাঝখানে অন্য কেউ স্ট্যাটাস বদলে ফেললে null ফেরত দেয়।
+export const changeOrderStatus = async (
+    order: IOrder,
+    to: OrderStatus,
+    actorId: IOrderStatusHistory['changedBy'],
+    note?: string
+): Promise<IOrder | null> => {
+    const from = order.orderStatus;
+    if (!canTransitionOrderStatus(from, to)) throw new OrderTransitionError(from, to);
+
+    const updatedOrder = await Order.findOneAndUpdate(
+        { _id: order._id, orderStatus: from },
+        {
+            $set: {
+                orderStatus: to,
+                // আগে পেমেন্ট হয়ে থাকলে বাতিল মানে পুরো টাকা ফেরত
+                ...(to === 'cancelled' && order.paymentStatus === 'paid' ? { paymentStatus: 'refunded' } : {}),
+            },
+            $push: { statusHistory: { status: to, changedBy: actorId, changedAt: new Date(), note } },
+        },
+        { new: true }
+    );
+    if (!updatedOrder) return null;
+
+    if (to === 'cancelled') {
+        await releaseStock(updatedOrder.items);
+        await notifyRestockedProducts(updatedOrder.items);
+        if (updatedOrder.coupon) await releaseCoupon(updatedOrder.coupon.coupon, updatedOrder.user);
+    }
+    if (to === 'delivered' && updatedOrder.paymentMethod === 'cod') await markCashOnDeliveryPaid(updatedOrder);
+    await notifyOrderStatusChanged(updatedOrder);
+    return updatedOrder;
+};
+
+// ================== RETURN REQUESTS ==================
+export class ReturnRequestError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'RETURN_REQUEST_INVALID' });
+    }
+}
+
+// প্রোডাক্ট + ভ্যারিয়েন্ট অনুযায়ী মোট পরিমাণ (key: lineKey)
+const sumQuantities = (lines: { product: unknown; variant?: unknown; quantity: number }[]) => {
+    const totals = new Map<string, number>();
+    for (const line of lines) {
+        const key = lineKey(line.product, line.variant);
+        totals.set(key, (totals.get(key) || 0) + line.quantity);
+    }
+    return totals;
+};
+
+// অর্ডারের প্রতিটি প্রোডাক্টের কতটুকু এখনো রিটার্ন করা যাবে
+// (অর্ডার করা পরিমাণ - খোলা বা অনুমোদিত রিকোয়েস্টে থাকা পরিমাণ)
+const getReturnableQuantities = (order: IOrder) => {
+    const ordered = sumQuantities(order.items);
+    const alreadyReturned = sumQuantities(
+        order.returnRequests.filter(request => request.status !== 'rejected').flatMap(request => request.items)
+    );
+    const returnable = new Map<string, number>();
+    ordered.forEach((quantity, key) => {
+        returnable.set(key, quantity - (alreadyReturned.get(key) || 0));
+    });
+    return returnable;
+};
+
+// items আর reason returnRequestBody (schemas.ts) যাচাই করে দেয়
+export const createReturnRequest = async (
+    order: IOrder,
+    items: ReturnRequestInput['items'],
+    reason: ReturnRequestInput['reason']
+): Promise<IOrder | null> => {
+    if (order.orderStatus !== 'delivered') throw new ReturnRequestError('Only delivered orders can be returned.');
+    if (order.returnRequests.some(request => request.status === 'requested')) {
+        throw new ReturnRequestError('This order already has an open return request.');
+    }
+
+    const requested = sumQuantities(items);
+    const returnable = getReturnableQuantities(order);
+    const errors: string[] = [];
+    requested.forEach((quantity, key) => {
+        const label = key.endsWith(':') ? key.slice(0, -1) : key;
+        if (!returnable.has(key)) errors.push(`Product ${label} is not part of this order.`);
+        else if (quantity > returnable.get(key)!) errors.push(`Only ${returnable.get(key)} of product ${label} can be returned.`);
+    });
+    if (errors.length > 0) throw new ReturnRequestError(errors.join(' '));
+
+    // অর্ডারের সময়কার দাম ধরে রিফান্ডের পরিমাণ
+    let refundAmount = 0;
+    requested.forEach((quantity, key) => {
+        const orderItem = order.items.find(item => lineKey(item.product, item.variant) === key)!;
+        refundAmount += orderItem.price * quantity;
+    });
+
+    const returnRequest = {
+        items: Array.from(requested, ([key, quantity]) => {
+            const [product, variant] = key.split(':');
+            return { product, variant: variant || null, quantity };
+        }),
+        reason,
+        status: 'requested',
+        refundAmount,
+        requestedAt: new Date(),
+    };
+
+    // একসাথে দুটি রিকোয়েস্ট যেন খোলা না যায়
+    return Order.findOneAndUpdate(
+        { _id: order._id, orderStatus: 'delivered', 'returnRequests.status': { $ne: 'requested' } },
+        { $push: { returnRequests: returnRequest } },
+        { new: true }
+    );
+};
+
+export const resolveReturnRequest = async (
+    order: IOrder,
+    returnId: string,
+    action: 'approve' | 'reject',
+    actorId: IOrderStatusHistory['changedBy'],
+    options: { note?: string; restock?: boolean } = {}
+): Promise<IOrder | null> => {
+    const { note, restock = true } = options;
+    const returnRequest = order.returnRequests.find(request => String(request._id) === returnId);
+    if (!returnRequest) throw new ReturnRequestError('Return request not found.');
+    if (returnRequest.status !== 'requested') throw new ReturnRequestError('This return request has already been resolved.');
+
+    const update: Record<string, unknown> = {
+        'returnRequests.$.status': action === 'approve' ? 'approved' : 'rejected',
+        'returnRequests.$.resolvedAt': new Date(),
+        'returnRequests.$.resolvedBy': actorId,
+        'returnRequests.$.resolutionNote': note,
+    };
+
+    if (action === 'approve') {
+        // সব আইটেম ফেরত এলে পুরো রিফান্ড, নাহলে আংশিক
+        const approved: IReturnRequest[] = [
+            ...order.returnRequests.filter(request => request.status === 'approved'),
+            returnRequest,
+        ];
+        const returned = sumQuantities(approved.flatMap(request => request.items));
+        const fullyReturned = order.items.every(item => (returned.get(lineKey(item.product, item.variant)) || 0) >= item.quantity);
+        update.paymentStatus = fullyReturned ? 'refunded' : 'partially_refunded';
+    }
+
+    const updatedOrder = await Order.findOneAndUpdate(
+        { _id: order._id, returnRequests: { $elemMatch: { _id: returnRequest._id, status: 'requested' } } },
+        { $set: update },
+        { new: true }
+    );
+    if (updatedOrder && action === 'approve' && restock) {
+        await releaseStock(returnRequest.items);
+        await notifyRestockedProducts(returnRequest.items);
+    }
+    return updatedOrder;
+};
+
+// ================== ORDER VELOCITY ==================
+// বট দিয়ে একের পর এক COD অর্ডার করে স্টক আটকে রাখা ঠেকাতে
+export class OrderVelocityError extends ApiError {
+    constructor(message: string, code: string) {
+        super(429, message, { code });
+    }
+}
+
+// ORDER_MAX_PER_HOUR: এক ঘণ্টায় একজন ইউজার সর্বোচ্চ কতটি অর্ডার দিতে পারবে
+// ORDER_MAX_PENDING_COD: এখনো প্রসেস না হওয়া (pending) COD অর্ডার একসাথে কতটি থাকতে পারবে
+const getMaxOrdersPerHour = () => Number(process.env.ORDER_MAX_PER_HOUR) || 5;
+const getMaxPendingCodOrders = () => Number(process.env.ORDER_MAX_PENDING_COD) || 3;
+
+export const assertOrderVelocity = async (userId: unknown, paymentMethod: string) => {
+    const recentOrders = await Order.countDocuments({ user: userId, createdAt: { $gte: new Date(Date.now() - 60 * 60 * 1000) } });
+    if (recentOrders >= getMaxOrdersPerHour()) {
+        throw new OrderVelocityError('You have placed too many orders recently. Please try again later.', 'ORDER_RATE_LIMITED');
+    }
+
+    if (paymentMethod !== 'cod') return;
+    const pendingCod = await Order.countDocuments({ user: userId, paymentMethod: 'cod', orderStatus: 'pending' });
+    if (pendingCod >= getMaxPendingCodOrders()) {
+        throw new OrderVelocityError('You have too many cash on delivery orders awaiting confirmation.', 'TOO_MANY_PENDING_COD_ORDERS');
+    }
+};
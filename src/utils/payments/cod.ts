@@ -0,0 +1,12 @@
+import { PaymentProvider, PaymentVerificationError } from './types';
+
+// ক্যাশ অন ডেলিভারি: কোনো গেটওয়ে নেই, ডেলিভারি হলে পেমেন্ট 'paid' হয়
+export const codProvider: PaymentProvider = {
+    name: 'cod',
+    async initiate() {
+        return { status: 'pending' };
+    },
+    async verifyCallback() {
+        throw new PaymentVerificationError('Cash on delivery does not accept callbacks.');
+    },
+};
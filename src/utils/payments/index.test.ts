@@ -0,0 +1,140 @@
+import Order from '../../models/OrderModel';
+import Payment from '../../models/PaymentModel';
+import { processPaymentEvent, VerifiedPaymentEvent } from '.';
+import { mockProvider, MOCK_SIGNATURE_HEADER, signMockPayload } from './mock';
+
+const payment = (overrides: Record<string, unknown> = {}) => ({
+    _id: 'payment-1',
+    order: 'order-1',
+    transactionId: 'RFF-1',
+    amount: 500,
+    status: 'pending',
+    processedEventIds: [] as string[],
+    ...overrides,
+} as any);
+
+const event = (overrides: Partial<VerifiedPaymentEvent> = {}): VerifiedPaymentEvent => ({
+    eventId: 'evt-1',
+    transactionId: 'RFF-1',
+    status: 'paid',
+    amount: 500,
+    payload: {},
+    ...overrides,
+});
+
+describe('processPaymentEvent', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('returns null for an unknown transaction', async () => {
+        jest.spyOn(Payment, 'findOne').mockResolvedValue(null);
+        expect(await processPaymentEvent('mock', event())).toEqual({ payment: null, duplicate: false });
+    });
+
+    it('marks the payment and the order paid', async () => {
+        const current = payment();
+        jest.spyOn(Payment, 'findOne').mockResolvedValue(current);
+        const update = jest.spyOn(Payment, 'findOneAndUpdate').mockResolvedValue({ ...current, status: 'paid' });
+        const orderUpdate = jest.spyOn(Order, 'updateOne').mockResolvedValue({ matchedCount: 1 } as any);
+
+        const result = await processPaymentEvent('mock', event());
+
+        expect(result.duplicate).toBe(false);
+        expect(update).toHaveBeenCalledWith(
+            { _id: current._id, processedEventIds: { $ne: 'evt-1' } },
+            expect.objectContaining({ $set: { status: 'paid' } }),
+            { new: true }
+        );
+        expect(orderUpdate).toHaveBeenCalledWith(
+            { _id: 'order-1', paymentStatus: { $in: ['pending', 'failed'] }, orderStatus: { $ne: 'cancelled' } },
+            { paymentStatus: 'paid' }
+        );
+    });
+
+    it('flags a late payment on a cancelled order for refund instead of marking the order paid', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        const current = payment();
+        jest.spyOn(Payment, 'findOne').mockResolvedValue(current);
+        jest.spyOn(Payment, 'findOneAndUpdate').mockResolvedValue({ ...current, status: 'paid' });
+        jest.spyOn(Order, 'updateOne').mockResolvedValue({ matchedCount: 0 } as any);
+        jest.spyOn(Order, 'exists').mockResolvedValue({ _id: 'order-1' } as any);
+        const flag = jest.spyOn(Payment, 'updateOne').mockResolvedValue({} as any);
+
+        const result = await processPaymentEvent('mock', event());
+
+        expect(flag).toHaveBeenCalledWith({ _id: 'payment-1' }, { refundRequired: true });
+        expect(result.payment?.refundRequired).toBe(true);
+    });
+
+    it('ignores an event that was already processed', async () => {
+        jest.spyOn(Payment, 'findOne').mockResolvedValue(payment({ processedEventIds: ['evt-1'] }));
+        const update = jest.spyOn(Payment, 'findOneAndUpdate');
+
+        const result = await processPaymentEvent('mock', event());
+
+        expect(result.duplicate).toBe(true);
+        expect(update).not.toHaveBeenCalled();
+    });
+
+    it('treats a lost race on the same event as a duplicate', async () => {
+        jest.spyOn(Payment, 'findOne').mockResolvedValue(payment());
+        jest.spyOn(Payment, 'findOneAndUpdate').mockResolvedValue(null);
+        const orderUpdate = jest.spyOn(Order, 'updateOne');
+
+        expect((await processPaymentEvent('mock', event())).duplicate).toBe(true);
+        expect(orderUpdate).not.toHaveBeenCalled();
+    });
+
+    it('does not let a late failure overwrite a paid payment', async () => {
+        const current = payment({ status: 'paid' });
+        jest.spyOn(Payment, 'findOne').mockResolvedValue(current);
+        const update = jest.spyOn(Payment, 'findOneAndUpdate').mockResolvedValue(current);
+        const orderUpdate = jest.spyOn(Order, 'updateOne').mockResolvedValue({ matchedCount: 1 } as any);
+
+        await processPaymentEvent('mock', event({ eventId: 'evt-2', status: 'failed' }));
+
+        expect(update.mock.calls[0][1]).not.toHaveProperty('$set');
+        // পেমেন্ট এখনো paid, তাই অর্ডারও failed হয় না
+        expect(orderUpdate).toHaveBeenCalledWith(expect.anything(), { paymentStatus: 'paid' });
+    });
+
+    it('records a paid event with the wrong amount as failed', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        const current = payment();
+        jest.spyOn(Payment, 'findOne').mockResolvedValue(current);
+        const update = jest.spyOn(Payment, 'findOneAndUpdate').mockResolvedValue({ ...current, status: 'failed' });
+        const orderUpdate = jest.spyOn(Order, 'updateOne').mockResolvedValue({} as any);
+
+        await processPaymentEvent('mock', event({ amount: 5 }));
+
+        expect(update.mock.calls[0][1]).toMatchObject({ $set: { status: 'failed' } });
+        expect(orderUpdate).toHaveBeenCalledWith({ _id: 'order-1', paymentStatus: 'pending' }, { paymentStatus: 'failed' });
+    });
+});
+
+describe('mock provider signature', () => {
+    const rawBody = Buffer.from(JSON.stringify({ eventId: 'evt-1', transactionId: 'RFF-1', status: 'paid', amount: 500 }));
+    const body = JSON.parse(rawBody.toString());
+
+    beforeEach(() => {
+        process.env.MOCK_PAYMENT_SECRET = 'test-secret';
+    });
+    afterEach(() => {
+        delete process.env.MOCK_PAYMENT_SECRET;
+    });
+
+    it('accepts a correctly signed payload', async () => {
+        const verified = await mockProvider.verifyCallback({ body, headers: { [MOCK_SIGNATURE_HEADER]: signMockPayload(rawBody) }, rawBody });
+        expect(verified).toMatchObject({ eventId: 'evt-1', transactionId: 'RFF-1', status: 'paid', amount: 500 });
+    });
+
+    it('rejects a wrong or missing signature', async () => {
+        const wrong = signMockPayload(Buffer.from('something else'));
+        await expect(mockProvider.verifyCallback({ body, headers: { [MOCK_SIGNATURE_HEADER]: wrong }, rawBody })).rejects.toThrow('Invalid signature.');
+        await expect(mockProvider.verifyCallback({ body, headers: {}, rawBody })).rejects.toThrow('Missing signature.');
+    });
+
+    it('cannot sign without a configured secret', () => {
+        delete process.env.MOCK_PAYMENT_SECRET;
+        expect(() => signMockPayload(rawBody)).toThrow('Mock payments are not configured.');
+    });
+});
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import Order, { IOrder } from '../../models/OrderModel';
+import Payment, { IPayment } from '../../models/PaymentModel';
+import { codProvider } from './cod';
+import { mockProvider } from './mock';
+import { createSslCommerzProvider } from './sslcommerz';
+import { PaymentProvider, VerifiedPaymentEvent } from './types';
+
+export * from './types';
+
+const providers = new Map<string, PaymentProvider>();
+let defaultsRegistered = false;
+
+export const registerPaymentProvider = (provider: PaymentProvider) => {
+    providers.set(provider.name, provider);
+};
+
+// env থেকে প্রোভাইডার চালু করা হয় প্রথম ব্যবহারের সময় (dotenv লোড হওয়ার পরে)
+const registerDefaultProviders = () => {
+    if (defaultsRegistered) return;
+    defaultsRegistered = true;
+
+    registerPaymentProvider(codProvider);
+    const { SSLCOMMERZ_STORE_ID, SSLCOMMERZ_STORE_PASSWORD, SSLCOMMERZ_SANDBOX, ENABLE_MOCK_PAYMENTS, MOCK_PAYMENT_SECRET } = process.env;
+    if (SSLCOMMERZ_STORE_ID && SSLCOMMERZ_STORE_PASSWORD) {
+        registerPaymentProvider(createSslCommerzProvider({
+            storeId: SSLCOMMERZ_STORE_ID,
+            storePassword: SSLCOMMERZ_STORE_PASSWORD,
+            sandbox: SSLCOMMERZ_SANDBOX !== 'false',
+        }));
+    }
+    // mock শুধু ইচ্ছা করে চালু করলে (লোকাল ডেভেলপমেন্ট), আর অবশ্যই নিজস্ব সিক্রেট সহ
+    if (ENABLE_MOCK_PAYMENTS === 'true') {
+        if (MOCK_PAYMENT_SECRET) registerPaymentProvider(mockProvider);
+        else console.error('ENABLE_MOCK_PAYMENTS is set but MOCK_PAYMENT_SECRET is missing; mock payments stay disabled.');
+    }
+};
+
+export const getPaymentProvider = (name: string) => {
+    registerDefaultProviders();
+    return providers.get(name);
+};
+
+export const generateTransactionId = () => `RFF-${Date.now()}-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+
+// অর্ডারের paymentStatus পেমেন্ট রেকর্ডের সাথে মিলিয়ে রাখা।
+// একবার 'paid' হলে পরে আসা failed/cancelled কলব্যাক সেটা বদলাতে পারবে না।
+// বাতিল অর্ডারে (স্টক আর কুপন আগেই ফেরত গেছে) দেরিতে আসা 'paid' অর্ডারে বসে না, পেমেন্টে refundRequired হয়।
+const syncOrderPaymentStatus = async (payment: IPayment) => {
+    if (payment.status === 'paid') {
+        const result = await Order.updateOne(
+            { _id: payment.order, paymentStatus: { $in: ['pending', 'failed'] }, orderStatus: { $ne: 'cancelled' } },
+            { paymentStatus: 'paid' }
+        );
+        if (result.matchedCount > 0) return;
+        const cancelled = await Order.exists({ _id: payment.order, orderStatus: 'cancelled' });
+        if (cancelled) {
+            console.error(`Payment ${payment.transactionId} was captured for cancelled order ${payment.order}; flagged for refund.`);
+            await Payment.updateOne({ _id: payment._id }, { refundRequired: true });
+            payment.refundRequired = true;
+        }
+    } else if (payment.status === 'failed' || payment.status === 'cancelled') {
+        await Order.updateOne({ _id: payment.order, paymentStatus: 'pending' }, { paymentStatus: 'failed' });
+    }
+};
+
+export interface ProcessResult {
+    payment: IPayment | null;
+    duplicate: boolean;
+}
+
+// Idempotent: একই eventId দ্বিতীয়বার এলে কিছুই বদলাবে না
+export const processPaymentEvent = async (providerName: string, event: VerifiedPaymentEvent): Promise<ProcessResult> => {
+    const payment = await Payment.findOne({ transactionId: event.transactionId, provider: providerName });
+    if (!payment) return { payment: null, duplicate: false };
+    if (payment.processedEventIds.includes(event.eventId)) return { payment, duplicate: true };
+
+    // টাকার পরিমাণ না মিললে 'paid' ধরা হবে না
+    let status: IPayment['status'] = event.status;
+    if (status === 'paid' && event.amount !== undefined && Math.abs(event.amount - payment.amount) > 0.01) {
+        console.error(`Payment amount mismatch for ${payment.transactionId}: expected ${payment.amount}, got ${event.amount}`);
+        status = 'failed';
+    }
+
+    const eventRecord = { eventId: event.eventId, status, amount: event.amount, payload: event.payload, receivedAt: new Date() };
+    const updatedPayment = await Payment.findOneAndUpdate(
+        { _id: payment._id, processedEventIds: { $ne: event.eventId } },
+        {
+            $addToSet: { processedEventIds: event.eventId },
+            $push: { events: eventRecord },
+            ...(payment.status !== 'paid'
+                ? { $set: { status, ...(event.providerReference ? { providerReference: event.providerReference } : {}) } }
+                : {}),
+        },
+        { new: true }
+    );
+    // একই সময়ে অন্য রিকোয়েস্ট একই ইভেন্ট প্রসেস করে ফেলেছে
+    if (!updatedPayment) return { payment, duplicate: true };
+
+    await syncOrderPaymentStatus(updatedPayment);
+    return { payment: updatedPayment, duplicate: false };
+};
+
+// COD অর্ডার ডেলিভারি হলে টাকা হাতে পাওয়া গেছে ধরে নেওয়া হয়
+export const markCashOnDeliveryPaid = async (order: IOrder) => {
+    await Payment.updateMany({ order: order._id, provider: 'cod', status: { $in: ['initiated', 'pending'] } }, { status: 'paid' });
+    await Order.updateOne({ _id: order._id, paymentStatus: 'pending' }, { paymentStatus: 'paid' });
+};
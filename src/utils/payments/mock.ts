@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+import { PaymentProvider, PaymentVerificationError } from './types';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+// কোনো ডিফল্ট সিক্রেট নেই: MOCK_PAYMENT_SECRET ছাড়া mock প্রোভাইডার চালুই হয় না (payments/index.ts)
+export const signMockPayload = (rawBody: string | Buffer) => {
+    const secret = process.env.MOCK_PAYMENT_SECRET;
+    if (!secret) throw new PaymentVerificationError('Mock payments are not configured.');
+    return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+};
+
+// অফলাইনে পুরো পেমেন্ট ফ্লো টেস্ট করার জন্য: HMAC-SHA256 সাইন করা JSON ওয়েবহুক
+// body: { eventId, transactionId, status: 'paid' | 'failed' | 'cancelled', amount }
+export const mockProvider: PaymentProvider = {
+    name: 'mock',
+    async initiate({ payment, callbackBaseUrl }) {
+        return {
+            status: 'pending',
+            redirectUrl: `${callbackBaseUrl}/api/payments/mock/checkout/${payment.transactionId}`,
+        };
+    },
+    async verifyCallback({ body, headers, rawBody }) {
+        const signature = headers[MOCK_SIGNATURE_HEADER];
+        if (typeof signature !== 'string' || !rawBody) throw new PaymentVerificationError('Missing signature.');
+
+        const expected = Buffer.from(signMockPayload(rawBody), 'hex');
+        const received = Buffer.from(signature, 'hex');
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+            throw new PaymentVerificationError('Invalid signature.');
+        }
+        if (!['paid', 'failed', 'cancelled'].includes(body.status)) throw new PaymentVerificationError('Invalid status.');
+
+        return {
+            eventId: String(body.eventId),
+            transactionId: String(body.transactionId),
+            status: body.status,
+            amount: body.amount !== undefined ? Number(body.amount) : undefined,
+            providerReference: body.eventId ? `mock-${body.eventId}` : undefined,
+            payload: body,
+        };
+    },
+};
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { PaymentProvider, PaymentVerificationError, VerifiedPaymentEvent } from './types';
+
+export interface SslCommerzConfig {
+    storeId: string;
+    storePassword: string;
+    sandbox: boolean;
+}
+
+const md5 = (value: string) => crypto.createHash('md5').update(value).digest('hex');
+
+const STATUS_MAP: Record<string, VerifiedPaymentEvent['status']> = {
+    VALID: 'paid',
+    VALIDATED: 'paid',
+    FAILED: 'failed',
+    CANCELLED: 'cancelled',
+    UNATTEMPTED: 'failed',
+    EXPIRED: 'failed',
+};
+
+// SSLCommerz (bKash, Nagad, কার্ড সব এর মাধ্যমে) - রিডাইরেক্ট + IPN
+export const createSslCommerzProvider = (config: SslCommerzConfig): PaymentProvider => {
+    const baseUrl = config.sandbox ? 'https://sandbox.sslcommerz.com' : 'https://securepay.sslcommerz.com';
+
+    // verify_key এ থাকা ফিল্ডগুলো + md5(store_passwd), key অনুযায়ী সাজিয়ে md5 = verify_sign
+    const isValidSignature = (body: Record<string, any>) => {
+        if (!body.verify_sign || !body.verify_key) return false;
+        const keys: string[] = String(body.verify_key).split(',');
+        const data: Record<string, string> = { store_passwd: md5(config.storePassword) };
+        for (const key of keys) data[key] = body[key] ?? '';
+        const signString = Object.keys(data).sort().map(key => `${key}=${data[key]}`).join('&');
+        return md5(signString) === body.verify_sign;
+    };
+
+    // সিগনেচার ঠিক থাকলেও সার্ভার-টু-সার্ভার validation API দিয়ে নিশ্চিত হওয়া
+    const validateTransaction = async (valId: string) => {
+        const params = new URLSearchParams({
+            val_id: valId,
+            store_id: config.storeId,
+            store_passwd: config.storePassword,
+            format: 'json',
+        });
+        const response = await fetch(`${baseUrl}/validator/api/validationserverAPI.php?${params}`);
+        if (!response.ok) throw new PaymentVerificationError('SSLCommerz validation failed.');
+        return response.json() as Promise<Record<string, any>>;
+    };
+
+    return {
+        name: 'sslcommerz',
+        async initiate({ payment, order, customer, callbackBaseUrl }) {
+            const callbackUrl = (result: string) => `${callbackBaseUrl}/api/payments/callback/sslcommerz/${result}`;
+            const form = new URLSearchParams({
+                store_id: config.storeId,
+                store_passwd: config.storePassword,
+                total_amount: payment.amount.toFixed(2),
+                currency: payment.currency,
+                tran_id: payment.transactionId,
+                success_url: callbackUrl('success'),
+                fail_url: callbackUrl('fail'),
+                cancel_url: callbackUrl('cancel'),
+                ipn_url: `${callbackBaseUrl}/api/payments/webhook/sslcommerz`,
+                cus_name: customer.name,
+                cus_email: customer.email,
+                cus_phone: customer.phone,
+                cus_add1: order.shippingAddress.address,
+                cus_city: order.shippingAddress.city,
+                cus_postcode: order.shippingAddress.postalCode,
+                cus_country: order.shippingAddress.country,
+                shipping_method: 'Courier',
+                ship_name: order.shippingAddress.fullName,
+                ship_add1: order.shippingAddress.address,
+                ship_city: order.shippingAddress.city,
+                ship_postcode: order.shippingAddress.postalCode,
+                ship_country: order.shippingAddress.country,
+                product_name: `Order ${order._id}`,
+                product_category: 'Food',
+                product_profile: 'physical-goods',
+                value_a: String(order._id),
+            });
+
+            const response = await fetch(`${baseUrl}/gwprocess/v4/api.php`, { method: 'POST', body: form });
+            const data = await response.json() as Record<string, any>;
+            if (data.status !== 'SUCCESS' || !data.GatewayPageURL) {
+                throw new Error(`SSLCommerz session failed: ${data.failedreason || response.status}`);
+            }
+            return { status: 'pending', redirectUrl: data.GatewayPageURL, providerReference: data.sessionkey };
+        },
+
+        async verifyCallback({ body }) {
+            if (!isValidSignature(body)) throw new PaymentVerificationError('Invalid SSLCommerz signature.');
+
+            let status = STATUS_MAP[String(body.status)] || 'failed';
+            let amount = body.amount !== undefined ? Number(body.amount) : undefined;
+            if (status === 'paid') {
+                const validation = await validateTransaction(String(body.val_id));
+                if (validation.tran_id !== body.tran_id || !['VALID', 'VALIDATED'].includes(validation.status)) {
+                    throw new PaymentVerificationError('SSLCommerz transaction could not be validated.');
+                }
+                status = 'paid';
+                amount = Number(validation.amount);
+            }
+
+            return {
+                eventId: `${body.val_id || body.tran_id}:${body.status}`,
+                transactionId: String(body.tran_id),
+                status,
+                amount,
+                providerReference: body.val_id || body.bank_tran_id,
+                payload: body,
+            };
+        },
+    };
+};
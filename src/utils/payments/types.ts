@@ -0,0 +1,45 @@
+import { IncomingHttpHeaders } from 'http';
+import { IOrder } from '../../models/OrderModel';
+import { IPayment } from '../../models/PaymentModel';
+import { ApiError } from '../errors';
+
+export interface InitiateContext {
+    payment: IPayment;
+    order: IOrder;
+    customer: { name: string; email: string; phone: string };
+    callbackBaseUrl: string; // এই সার্ভারের পাবলিক URL, কলব্যাক/IPN এর জন্য
+}
+
+export interface InitiateResult {
+    status: 'pending' | 'paid';
+    redirectUrl?: string; // রিডাইরেক্ট গেটওয়ে হলে কাস্টমারকে এখানে পাঠাতে হবে
+    providerReference?: string;
+}
+
+export interface IncomingCallback {
+    body: Record<string, any>;
+    headers: IncomingHttpHeaders;
+    rawBody?: Buffer;
+}
+
+// সিগনেচার যাচাই হওয়ার পরে প্রোভাইডার-নিরপেক্ষ ইভেন্ট
+export interface VerifiedPaymentEvent {
+    eventId: string;
+    transactionId: string;
+    status: 'paid' | 'failed' | 'cancelled';
+    amount?: number;
+    providerReference?: string;
+    payload: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+    name: string;
+    initiate(context: InitiateContext): Promise<InitiateResult>;
+    verifyCallback(callback: IncomingCallback): Promise<VerifiedPaymentEvent>;
+}
+
+export class PaymentVerificationError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'PAYMENT_VERIFICATION_FAILED' });
+    }
+}
@@ -0,0 +1,70 @@
+import Product, { IProduct } from '../models/ProductModel';
+import ProductAlert, { ProductAlertType } from '../models/ProductAlertModel';
+import Notification from '../models/NotificationModel';
+import { StockLine } from './inventory';
+import { getUnitPrice } from './variants';
+
+export interface ProductAvailability {
+    stock: number;
+    pricing: { regular: number; discount?: number };
+}
+
+const hasDiscount = (pricing: ProductAvailability['pricing']) => Boolean(pricing.discount && pricing.discount < pricing.regular);
+
+// আগের আর পরের অবস্থা তুলনা করে কোন অ্যালার্টগুলো ট্রিগার হলো (শুধু অবস্থা বদলালে, প্রতি আপডেটে নয়)
+export const detectAlertTriggers = (before: ProductAvailability, after: ProductAvailability): ProductAlertType[] => {
+    const triggers: ProductAlertType[] = [];
+    if (before.stock <= 0 && after.stock > 0) triggers.push('back_in_stock');
+    if (!hasDiscount(before.pricing) && hasDiscount(after.pricing)) triggers.push('discount');
+    return triggers;
+};
+
+// সাবস্ক্রাইব করা ইউজারদের জন্য নোটিফিকেশন কিউতে রাখা; কতগুলো তৈরি হলো তা ফেরত দেয়
+export const queueProductAlerts = async (product: IProduct, triggers: ProductAlertType[]): Promise<number> => {
+    if (triggers.length === 0 || !product.status) return 0;
+    const alerts = await ProductAlert.find({ product: product._id, types: { $in: triggers } });
+    if (alerts.length === 0) return 0;
+
+    const data = {
+        productName: product.name,
+        slug: product.slug,
+        price: getUnitPrice(product.pricing),
+        regularPrice: product.pricing.regular,
+        stock: product.stock,
+        image: product.images[0],
+    };
+    const notifications = alerts.flatMap(alert =>
+        alert.types
+            .filter(type => triggers.includes(type))
+            .map(type => ({ user: alert.user, type, product: product._id, data }))
+    );
+    await Notification.insertMany(notifications);
+    await ProductAlert.updateMany({ _id: { $in: alerts.map(alert => alert._id) } }, { lastNotifiedAt: new Date() });
+    return notifications.length;
+};
+
+// প্রোডাক্ট আপডেটের পরে কল করা হয়; নোটিফিকেশনে সমস্যা হলেও আপডেট আটকাবে না
+export const notifyProductChange = async (before: ProductAvailability, after: IProduct) => {
+    try {
+        await queueProductAlerts(after, detectAlertTriggers(before, after));
+    } catch (error) {
+        console.error("Product Alert Error:", error);
+    }
+};
+
+// ক্যানসেল/রিটার্নে স্টক ফেরত আসার পর: আগের স্টক = এখনকার স্টক - ফেরত আসা পরিমাণ
+export const notifyRestockedProducts = async (lines: StockLine[]) => {
+    try {
+        const restocked = new Map<string, number>();
+        for (const line of lines) {
+            restocked.set(String(line.product), (restocked.get(String(line.product)) || 0) + line.quantity);
+        }
+        const products = await Product.find({ _id: { $in: [...restocked.keys()] } });
+        for (const product of products) {
+            const before = { stock: product.stock - restocked.get(String(product._id))!, pricing: product.pricing };
+            await queueProductAlerts(product, detectAlertTriggers(before, product));
+        }
+    } catch (error) {
+        console.error("Product Alert Error:", error);
+    }
+};
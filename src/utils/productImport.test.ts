@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import Category from '../models/CategoryModel';
+import Product from '../models/ProductModel';
+import { importProducts } from './productImport';
+
+jest.mock('./productAlerts');
+
+const categoryId = new mongoose.Types.ObjectId();
+const rows = [
+    { slug: 'ghee', name: 'Ghee', category: 'dairy', regularPrice: '900', stock: '5' },
+    { slug: 'honey', name: 'Honey', category: 'dairy', regularPrice: '600', stock: '3' },
+];
+
+describe('importProducts', () => {
+    beforeEach(() => {
+        jest.spyOn(Category, 'find').mockReturnValue({ select: jest.fn().mockResolvedValue([{ _id: categoryId, slug: 'dairy', name: 'Dairy' }]) } as any);
+        jest.spyOn(Product, 'findOne').mockResolvedValue(null);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('saves every product inside one transaction', async () => {
+        const session = { id: 'session' };
+        jest.spyOn(Product.db, 'transaction').mockImplementation((async (fn: any) => fn(session)) as any);
+        const save = jest.spyOn(Product.prototype, 'save').mockResolvedValue(undefined as any);
+
+        const report = await importProducts(rows, { dryRun: false });
+
+        expect(report).toMatchObject({ applied: true, created: 2, failed: 0 });
+        expect(save).toHaveBeenCalledTimes(2);
+        expect(save).toHaveBeenCalledWith({ session });
+    });
+
+    it('rejects the whole file when a slug clashes during the save', async () => {
+        jest.spyOn(Product.db, 'transaction').mockRejectedValue(Object.assign(new Error('E11000'), { code: 11000, keyValue: { slug: 'honey' } }));
+
+        const report = await importProducts(rows, { dryRun: false });
+
+        expect(report).toMatchObject({ applied: false, failed: 1 });
+        expect(report.rows[1].errors).toEqual(['Another product already uses slug "honey". Nothing was imported.']);
+    });
+
+    it('falls back to saving one by one when MongoDB does not support transactions', async () => {
+        jest.spyOn(Product.db, 'transaction').mockRejectedValue(Object.assign(new Error('Transaction numbers are only allowed on a replica set member or mongos'), { code: 20 }));
+        jest.spyOn(Product, 'find').mockReturnValue({ lean: jest.fn().mockResolvedValue([]) } as any);
+        const save = jest.spyOn(Product.prototype, 'save').mockResolvedValue(undefined as any);
+
+        const report = await importProducts(rows, { dryRun: false });
+
+        expect(report).toMatchObject({ applied: true, created: 2 });
+        expect(save).toHaveBeenCalledTimes(2);
+        expect(save).toHaveBeenCalledWith();
+    });
+
+    it('removes already saved products when a later save fails without transactions', async () => {
+        jest.spyOn(Product.db, 'transaction').mockRejectedValue(Object.assign(new Error('no transactions'), { code: 20 }));
+        jest.spyOn(Product, 'find').mockReturnValue({ lean: jest.fn().mockResolvedValue([]) } as any);
+        jest.spyOn(Product.prototype, 'save')
+            .mockResolvedValueOnce(undefined as any)
+            .mockRejectedValueOnce(Object.assign(new Error('E11000'), { code: 11000, keyValue: { slug: 'honey' } }));
+        const remove = jest.spyOn(Product, 'deleteOne').mockResolvedValue({} as any);
+
+        const report = await importProducts(rows, { dryRun: false });
+
+        expect(report).toMatchObject({ applied: false, failed: 1 });
+        expect(remove).toHaveBeenCalledTimes(1);
+    });
+
+    it('saves nothing on a dry run', async () => {
+        const transaction = jest.spyOn(Product.db, 'transaction');
+
+        const report = await importProducts(rows, { dryRun: true });
+
+        expect(report).toMatchObject({ dryRun: true, applied: false, failed: 0 });
+        expect(transaction).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,389 @@
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import Product, { IProduct } from '../models/ProductModel';
+import Category from '../models/CategoryModel';
+import { notifyProductChange, ProductAvailability } from './productAlerts';
+import { ApiError, isMongoErrorCode } from './errors';
+
+export class ProductImportError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'IMPORT_INVALID' });
+    }
+}
+
+export const SPREADSHEET_FORMATS = ['csv', 'xlsx'] as const;
+export type SpreadsheetFormat = typeof SPREADSHEET_FORMATS[number];
+
+// এক্সপোর্ট আর ইমপোর্ট একই কলাম ব্যবহার করে, তাই এক্সপোর্ট করা ফাইল এডিট করে আবার ইমপোর্ট করা যায়।
+// ভ্যারিয়েন্ট থাকা প্রোডাক্টে প্রতি ভ্যারিয়েন্ট এক লাইন (sku দিয়ে চেনা), বাকিগুলোতে প্রতি প্রোডাক্ট এক লাইন (slug দিয়ে)।
+export const PRODUCT_IMPORT_COLUMNS = [
+    'slug', 'name', 'brand', 'category', 'status',
+    'regularPrice', 'discountPrice', 'stock', 'weight',
+    'sku', 'variantLabel', 'packWeight', 'packSize', 'isDefaultVariant',
+    'images', 'description', 'specification', 'warranty', 'metaTitle', 'metaDescription',
+] as const;
+type ImportColumn = typeof PRODUCT_IMPORT_COLUMNS[number];
+export type ImportRow = Partial<Record<ImportColumn, string>>;
+
+const MAX_IMPORT_ROWS = 5000;
+const IMAGE_SEPARATOR = '|';
+
+export interface ImportRowResult {
+    row: number; // স্প্রেডশিটের লাইন নম্বর (হেডার ১ নম্বর লাইন)
+    action: 'create' | 'update' | 'add_variant' | 'update_variant' | 'skip';
+    slug?: string;
+    sku?: string;
+    errors: string[];
+}
+
+export interface ImportReport {
+    dryRun: boolean;
+    applied: boolean;
+    total: number;
+    created: number;
+    updated: number;
+    failed: number;
+    rows: ImportRowResult[];
+}
+
+// "Regular Price", "regular_price", "regularprice" সব একই কলাম
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_-]+/g, '');
+const COLUMN_BY_HEADER = new Map<string, ImportColumn>(PRODUCT_IMPORT_COLUMNS.map(column => [normalizeHeader(column), column]));
+
+const cellText = (value: ExcelJS.CellValue): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') {
+        if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+        if ('text' in value) return String(value.text).trim(); // হাইপারলিংক
+        if ('result' in value) return value.result === undefined || value.result === null ? '' : String(value.result).trim();
+        return '';
+    }
+    return String(value).trim();
+};
+
+// CSV তে সব কিছু স্ট্রিং হিসেবেই রাখা হয় (নাহলে "00123" এর মতো SKU সংখ্যা হয়ে যায়)
+export const readSpreadsheet = async (file: { buffer: Buffer; originalname: string }): Promise<ImportRow[]> => {
+    const workbook = new ExcelJS.Workbook();
+    let worksheet: ExcelJS.Worksheet | undefined;
+    try {
+        if (file.originalname.toLowerCase().endsWith('.csv')) {
+            worksheet = await workbook.csv.read(Readable.from(file.buffer), { map: (value: unknown) => value });
+        } else {
+            // exceljs এর টাইপে Buffer মানে ArrayBuffer, তাই Node Buffer এর কপি থেকে ArrayBuffer
+            await workbook.xlsx.load(Uint8Array.from(file.buffer).buffer);
+            worksheet = workbook.worksheets[0];
+        }
+    } catch {
+        throw new ProductImportError('Could not read the spreadsheet. Upload a valid CSV or XLSX file.');
+    }
+    if (!worksheet || worksheet.rowCount < 2) throw new ProductImportError('The spreadsheet has no data rows.');
+
+    const columns = new Map<number, ImportColumn>();
+    worksheet.getRow(1).eachCell((cell, index) => {
+        const column = COLUMN_BY_HEADER.get(normalizeHeader(cellText(cell.value)));
+        if (column) columns.set(index, column);
+    });
+    if (![...columns.values()].some(column => column === 'slug' || column === 'sku' || column === 'name')) {
+        throw new ProductImportError('The header row must include at least one of: slug, sku, name.');
+    }
+    if (worksheet.rowCount - 1 > MAX_IMPORT_ROWS) throw new ProductImportError(`A single import can have at most ${MAX_IMPORT_ROWS} rows.`);
+
+    const rows: ImportRow[] = [];
+    for (let index = 2; index <= worksheet.rowCount; index++) {
+        const row: ImportRow = {};
+        worksheet.getRow(index).eachCell((cell, columnIndex) => {
+            const column = columns.get(columnIndex);
+            const text = cellText(cell.value);
+            if (column && text) row[column] = text;
+        });
+        rows.push(row);
+    }
+    return rows;
+};
+
+const parseNumber = (value: string | undefined, column: string, errors: string[], options: { integer?: boolean } = {}) => {
+    if (value === undefined) return undefined;
+    const number = Number(value.replace(/,/g, ''));
+    if (!Number.isFinite(number) || number < 0 || (options.integer && !Number.isInteger(number))) {
+        errors.push(`${column} must be a ${options.integer ? 'whole number' : 'number'} of 0 or more.`);
+        return undefined;
+    }
+    return number;
+};
+
+const parseBoolean = (value: string | undefined, column: string, errors: string[]) => {
+    if (value === undefined) return undefined;
+    const normalized = value.toLowerCase();
+    if (['true', 'yes', '1', 'active'].includes(normalized)) return true;
+    if (['false', 'no', '0', 'inactive'].includes(normalized)) return false;
+    errors.push(`${column} must be true or false.`);
+    return undefined;
+};
+
+const slugify = (name: string) => name.toLowerCase().replace(/ & /g, '-').replace(/\s+/g, '-');
+
+// প্রতিটি লাইন যাচাই করে মেমোরিতে থাকা প্রোডাক্ট ডকুমেন্টে প্রয়োগ করা হয়। dry-run এ কিছুই সেভ হয় না;
+// আসল ইমপোর্টে কোনো লাইনে এরর থাকলে পুরো ফাইলই বাতিল (অর্ধেক আপডেট হওয়া ক্যাটালগ এড়াতে)।
+export const importProducts = async (rows: ImportRow[], options: { dryRun: boolean }): Promise<ImportReport> => {
+    const categories = await Category.find({}).select('slug name');
+    const categoryBySlug = new Map(categories.map(category => [category.slug, category]));
+
+    const products = new Map<string, IProduct>(); // key: product id
+    const before = new Map<string, ProductAvailability>(); // অ্যালার্টের জন্য আগের স্টক/দাম
+    const rowsByProduct = new Map<string, ImportRowResult[]>();
+    const seenSkus = new Map<string, number>();
+    const results: ImportRowResult[] = [];
+    let generatedSlugs = 0;
+
+    const track = (product: IProduct, isNew: boolean) => {
+        const id = String(product._id);
+        if (!products.has(id)) {
+            products.set(id, product);
+            if (!isNew) before.set(id, { stock: product.stock, pricing: { regular: product.pricing.regular, discount: product.pricing.discount } });
+        }
+        return product;
+    };
+    const findLoaded = (predicate: (product: IProduct) => boolean) => [...products.values()].find(predicate) || null;
+
+    for (const [index, row] of rows.entries()) {
+        const result: ImportRowResult = { row: index + 2, action: 'skip', slug: row.slug, sku: row.sku?.toUpperCase(), errors: [] };
+        results.push(result);
+        const errors = result.errors;
+        if (Object.keys(row).length === 0) continue; // খালি লাইন
+
+        const regularPrice = parseNumber(row.regularPrice, 'regularPrice', errors);
+        const discountPrice = parseNumber(row.discountPrice, 'discountPrice', errors);
+        const stock = parseNumber(row.stock, 'stock', errors, { integer: true });
+        const weight = parseNumber(row.weight, 'weight', errors);
+        const status = parseBoolean(row.status, 'status', errors);
+        const isDefaultVariant = parseBoolean(row.isDefaultVariant, 'isDefaultVariant', errors);
+        const category = row.category ? categoryBySlug.get(row.category) : undefined;
+        if (row.category && !category) errors.push(`Category '${row.category}' not found.`);
+        if (regularPrice !== undefined && discountPrice !== undefined && discountPrice > regularPrice) {
+            errors.push('discountPrice cannot be more than regularPrice.');
+        }
+
+        const sku = result.sku;
+        if (sku) {
+            if (seenSkus.has(sku)) errors.push(`SKU ${sku} is repeated (first used on row ${seenSkus.get(sku)}).`);
+            else seenSkus.set(sku, result.row);
+        }
+        if (errors.length > 0) continue;
+
+        // ১. প্রোডাক্ট খোঁজা: আগে SKU, তারপর slug; না পেলে নতুন
+        let product = sku
+            ? findLoaded(p => p.variants.some(v => v.sku === sku)) || await Product.findOne({ 'variants.sku': sku })
+            : null;
+        if (!product && row.slug) product = findLoaded(p => p.slug === row.slug) || await Product.findOne({ slug: row.slug });
+        const isNew = !product;
+        if (!product) {
+            if (!row.name || !category || regularPrice === undefined) {
+                errors.push('New products need name, category and regularPrice.');
+                continue;
+            }
+            product = new Product({
+                name: row.name,
+                slug: row.slug || `${slugify(row.name)}-${Date.now()}-${++generatedSlugs}`,
+                category: category._id,
+                pricing: { regular: regularPrice },
+                stock: 0,
+            });
+        }
+        track(product, isNew);
+        result.slug = product.slug;
+
+        // ২. প্রোডাক্ট লেভেলের ফিল্ড (খালি সেল মানে আগের মানই থাকবে)
+        if (row.name) product.name = row.name;
+        if (row.brand) product.brand = row.brand;
+        if (category) product.set('category', category._id);
+        if (status !== undefined) product.status = status;
+        if (row.images) product.images = row.images.split(IMAGE_SEPARATOR).map(url => url.trim()).filter(Boolean);
+        if (row.description) product.set('details.description', row.description);
+        if (row.specification) product.set('details.specification', row.specification);
+        if (row.warranty) product.set('details.warranty', row.warranty);
+        if (row.metaTitle) product.set('seo.metaTitle', row.metaTitle);
+        if (row.metaDescription) product.set('seo.metaDescription', row.metaDescription);
+
+        // ৩. দাম/স্টক: SKU থাকলে সেই ভ্যারিয়েন্টের, নাহলে প্রোডাক্টের
+        if (sku) {
+            let variant = product.variants.find(v => v.sku === sku);
+            if (!variant) {
+                if (!row.variantLabel || regularPrice === undefined) {
+                    errors.push('New variants need variantLabel and regularPrice.');
+                    continue;
+                }
+                product.variants.push({ sku, label: row.variantLabel, attributes: {}, pricing: { regular: regularPrice }, stock: 0, isDefault: false });
+                variant = product.variants[product.variants.length - 1];
+                result.action = 'add_variant';
+            } else {
+                result.action = 'update_variant';
+            }
+            if (row.variantLabel) variant.label = row.variantLabel;
+            if (row.packWeight) variant.attributes.weight = row.packWeight;
+            if (row.packSize) variant.attributes.packSize = row.packSize;
+            if (regularPrice !== undefined) variant.pricing.regular = regularPrice;
+            if (discountPrice !== undefined) variant.pricing.discount = discountPrice || undefined;
+            if (stock !== undefined) variant.stock = stock;
+            if (weight !== undefined) variant.weight = weight;
+            if (isDefaultVariant) product.variants.forEach(v => { v.isDefault = v === variant; });
+        } else {
+            if (product.variants.length > 0 && [regularPrice, discountPrice, stock].some(value => value !== undefined)) {
+                errors.push('This product has variants; set price and stock on each variant row using the sku column.');
+                continue;
+            }
+            if (regularPrice !== undefined) product.set('pricing.regular', regularPrice);
+            if (discountPrice !== undefined) product.set('pricing.discount', discountPrice || undefined);
+            if (stock !== undefined) product.stock = stock;
+            if (weight !== undefined) product.weight = weight;
+            result.action = 'update';
+        }
+        if (isNew) result.action = 'create';
+
+        const productRows = rowsByProduct.get(String(product._id)) || [];
+        productRows.push(result);
+        rowsByProduct.set(String(product._id), productRows);
+    }
+
+    // ৪. মডেলের নিজস্ব ভ্যালিডেশন, এরর থাকলে ওই প্রোডাক্টের সব লাইনে দেখানো হয়
+    for (const [id, product] of products) {
+        const validationError = product.validateSync();
+        if (!validationError) continue;
+        const messages = Object.values(validationError.errors).map(error => error.message);
+        for (const result of rowsByProduct.get(id) || []) result.errors.push(...messages);
+    }
+
+    let applied = !options.dryRun && results.every(result => result.errors.length === 0);
+    if (applied) {
+        applied = await saveAllProducts(products, rowsByProduct);
+        if (applied) {
+            for (const [id, product] of products) {
+                const previous = before.get(id);
+                if (previous) await notifyProductChange(previous, product);
+            }
+        }
+    }
+
+    const failed = results.filter(result => result.errors.length > 0).length;
+    const touched = [...rowsByProduct.keys()];
+    return {
+        dryRun: options.dryRun,
+        applied,
+        total: results.length,
+        created: touched.filter(id => !before.has(id)).length,
+        updated: touched.filter(id => before.has(id)).length,
+        failed,
+        rows: results,
+    };
+};
+
+// standalone MongoDB তে ট্রানজ্যাকশন নেই (IllegalOperation, code 20)। তখন একটি একটি করে সেভ, আর মাঝপথে ব্যর্থ হলে
+// আগে সেভ হওয়াগুলো ফিরিয়ে নেওয়া হয়: নতুনগুলো মুছে, পুরনোগুলো সেভের আগের ডকুমেন্ট দিয়ে।
+const TRANSACTION_NOT_SUPPORTED = 20;
+
+const saveWithCompensation = async (products: IProduct[]) => {
+    const existingIds = products.filter(product => !product.isNew).map(product => product._id);
+    const originals = new Map((await Product.find({ _id: { $in: existingIds } }).lean()).map(doc => [String(doc._id), doc]));
+    const saved: { product: IProduct; isNew: boolean }[] = [];
+    try {
+        for (const product of products) {
+            const isNew = product.isNew;
+            await product.save();
+            saved.push({ product, isNew });
+        }
+    } catch (error) {
+        for (const { product, isNew } of saved.reverse()) {
+            const original = originals.get(String(product._id));
+            try {
+                if (isNew) await Product.deleteOne({ _id: product._id });
+                else if (original) await Product.replaceOne({ _id: product._id }, original);
+            } catch (rollbackError) {
+                console.error(`Product Import Rollback Error (${product.slug}):`, rollbackError);
+            }
+        }
+        throw error;
+    }
+};
+
+// সব প্রোডাক্ট একটি ট্রানজ্যাকশনে সেভ: মাঝপথে একটি ব্যর্থ হলে কোনোটিই সেভ হয় না (পুরো ফাইল বাতিল)।
+// যাচাইয়ের পরে অন্য কেউ একই slug/SKU বানিয়ে ফেললে (duplicate key) সংশ্লিষ্ট লাইনে এরর দিয়ে false ফেরত দেয়।
+const saveAllProducts = async (products: Map<string, IProduct>, rowsByProduct: Map<string, ImportRowResult[]>) => {
+    try {
+        try {
+            await Product.db.transaction(async session => {
+                for (const product of products.values()) await product.save({ session });
+            });
+        } catch (error) {
+            if (!isMongoErrorCode(error, TRANSACTION_NOT_SUPPORTED)) throw error;
+            await saveWithCompensation([...products.values()]);
+        }
+        return true;
+    } catch (error) {
+        if (!isMongoErrorCode(error, 11000)) throw error;
+        const [field, value] = Object.entries(error.keyValue || {})[0] || [];
+        const message = `Another product already uses ${field} "${value}". Nothing was imported.`;
+        const clashing = [...products].filter(([, product]) =>
+            (field === 'slug' && product.slug === value) || (field === 'variants.sku' && product.variants.some(variant => variant.sku === value))
+        );
+        for (const [id] of clashing.length > 0 ? clashing : [...products]) {
+            for (const result of rowsByProduct.get(id) || []) result.errors.push(message);
+        }
+        return false;
+    }
+};
+
+// ইমপোর্টের কলামেই এক্সপোর্ট: ভ্যারিয়েন্ট থাকলে প্রতি ভ্যারিয়েন্ট এক লাইন
+export const exportProducts = async (filter: Record<string, unknown>, format: SpreadsheetFormat): Promise<Buffer> => {
+    const [products, categories] = await Promise.all([
+        Product.find(filter).sort({ name: 1 }).lean(),
+        Category.find({}).select('slug').lean(),
+    ]);
+    const categorySlugs = new Map(categories.map(category => [String(category._id), category.slug]));
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Products');
+    worksheet.columns = PRODUCT_IMPORT_COLUMNS.map(column => ({ header: column, key: column, width: column === 'images' ? 40 : 16 }));
+
+    for (const product of products) {
+        const base = {
+            slug: product.slug,
+            name: product.name,
+            brand: product.brand,
+            category: categorySlugs.get(String(product.category)),
+            status: String(product.status),
+            images: (product.images || []).join(IMAGE_SEPARATOR),
+            description: product.details?.description,
+            specification: product.details?.specification,
+            warranty: product.details?.warranty,
+            metaTitle: product.seo?.metaTitle,
+            metaDescription: product.seo?.metaDescription,
+        };
+        if (!product.variants?.length) {
+            worksheet.addRow({
+                ...base,
+                regularPrice: product.pricing.regular,
+                discountPrice: product.pricing.discount,
+                stock: product.stock,
+                weight: product.weight,
+            });
+            continue;
+        }
+        for (const variant of product.variants) {
+            worksheet.addRow({
+                ...base,
+                regularPrice: variant.pricing.regular,
+                discountPrice: variant.pricing.discount,
+                stock: variant.stock,
+                weight: variant.weight,
+                sku: variant.sku,
+                variantLabel: variant.label,
+                packWeight: variant.attributes?.weight,
+                packSize: variant.attributes?.packSize,
+                isDefaultVariant: String(variant.isDefault),
+            });
+        }
+    }
+
+    const buffer = format === 'csv' ? await workbook.csv.writeBuffer() : await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer as ArrayBuffer);
+};
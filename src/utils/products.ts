@@ -0,0 +1,161 @@
+import mongoose, { FilterQuery, PipelineStage } from 'mongoose';
+import Product, { IProduct, buildProductSearchGrams } from '../models/ProductModel';
+import Category from '../models/CategoryModel';
+import { buildSearchStages } from './search';
+
+export const PRODUCT_SORTS: Record<string, Record<string, 1 | -1>> = {
+    newest: { createdAt: -1 },
+    price_asc: { effectivePrice: 1, createdAt: -1 },
+    price_desc: { effectivePrice: -1, createdAt: -1 },
+    discount: { discountPercent: -1, createdAt: -1 },
+    rating: { averageRating: -1, reviewCount: -1, createdAt: -1 },
+    relevance: { relevance: -1, createdAt: -1 },
+};
+
+// ফিল্টার সাইডবারের জন্য দামের রেঞ্জ
+export const PRICE_BUCKET_BOUNDARIES = [0, 100, 250, 500, 1000, 2500, 5000];
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export interface ProductListOptions {
+    baseMatch: Record<string, unknown>;
+    search?: string;
+    categoryIds?: mongoose.Types.ObjectId[];
+    brands?: string[];
+    minPrice?: number;
+    maxPrice?: number;
+    sort: string;
+    page: number;
+    limit: number;
+}
+
+// অর্ডারের সময় যেভাবে দাম ধরা হয় (discount || regular), এখানেও তাই
+const effectivePriceStages: PipelineStage[] = [
+    {
+        $addFields: {
+            effectivePrice: {
+                $cond: [{ $gt: ['$pricing.discount', 0] }, '$pricing.discount', '$pricing.regular'],
+            },
+        },
+    },
+    {
+        $addFields: {
+            discountPercent: {
+                $cond: [
+                    { $gt: ['$pricing.regular', 0] },
+                    { $multiply: [{ $divide: [{ $subtract: ['$pricing.regular', '$effectivePrice'] }, '$pricing.regular'] }, 100] },
+                    0,
+                ],
+            },
+        },
+    },
+];
+
+// প্রতিটি facet নিজের ফিল্টার বাদে বাকি সব ফিল্টার মেনে গণনা হয়,
+// যাতে সাইডবারে একাধিক ব্র্যান্ড/ক্যাটাগরি একসাথে বেছে নেওয়া যায়।
+export const buildProductListPipeline = (options: ProductListOptions): PipelineStage[] => {
+    const categoryMatch = options.categoryIds ? { category: { $in: options.categoryIds } } : {};
+    const brandMatch = options.brands?.length ? { brand: { $in: options.brands } } : {};
+    const priceMatch: Record<string, unknown> = {};
+    if (options.minPrice !== undefined || options.maxPrice !== undefined) {
+        const range: Record<string, number> = {};
+        if (options.minPrice !== undefined) range.$gte = options.minPrice;
+        if (options.maxPrice !== undefined) range.$lte = options.maxPrice;
+        priceMatch.effectivePrice = range;
+    }
+    const allFilters = { ...categoryMatch, ...brandMatch, ...priceMatch };
+
+    // $text থাকলে সেটা অবশ্যই প্রথম $match এ থাকতে হবে
+    const search = options.search ? buildSearchStages(options.search) : null;
+
+    return [
+        { $match: search ? { ...options.baseMatch, ...search.match } : options.baseMatch },
+        ...(search ? search.scoring : [{ $project: { searchGrams: 0 } } as PipelineStage]),
+        ...effectivePriceStages,
+        {
+            $facet: {
+                products: [
+                    { $match: allFilters },
+                    { $sort: PRODUCT_SORTS[options.sort] },
+                    { $skip: (options.page - 1) * options.limit },
+                    { $limit: options.limit },
+                    {
+                        $lookup: {
+                            from: 'categories',
+                            localField: 'category',
+                            foreignField: '_id',
+                            pipeline: [{ $project: { name: 1 } }],
+                            as: 'category',
+                        },
+                    },
+                    { $unwind: { path: '$category', preserveNullAndEmptyArrays: true } },
+                ],
+                total: [{ $match: allFilters }, { $count: 'count' }],
+                brands: [
+                    { $match: { ...categoryMatch, ...priceMatch } },
+                    { $group: { _id: '$brand', count: { $sum: 1 } } },
+                    { $sort: { count: -1, _id: 1 } },
+                    { $project: { _id: 0, brand: '$_id', count: 1 } },
+                ],
+                categories: [
+                    { $match: { ...brandMatch, ...priceMatch } },
+                    { $group: { _id: '$category', count: { $sum: 1 } } },
+                    {
+                        $lookup: {
+                            from: 'categories',
+                            localField: '_id',
+                            foreignField: '_id',
+                            pipeline: [{ $project: { name: 1, slug: 1, parentId: 1 } }],
+                            as: 'category',
+                        },
+                    },
+                    { $unwind: '$category' },
+                    { $sort: { count: -1 } },
+                    { $project: { _id: '$category._id', name: '$category.name', slug: '$category.slug', parentId: '$category.parentId', count: 1 } },
+                ],
+                priceBuckets: [
+                    { $match: { ...categoryMatch, ...brandMatch } },
+                    {
+                        $bucket: {
+                            groupBy: '$effectivePrice',
+                            boundaries: PRICE_BUCKET_BOUNDARIES,
+                            default: 'other',
+                            output: { count: { $sum: 1 } },
+                        },
+                    },
+                ],
+            },
+        },
+    ];
+};
+
+// $bucket এর আউটপুট ফ্রন্টএন্ডের জন্য { min, max, count } আকারে
+export const formatPriceBuckets = (buckets: { _id: number | string; count: number }[]) =>
+    buckets.map(bucket => {
+        if (bucket._id === 'other') {
+            return { min: PRICE_BUCKET_BOUNDARIES[PRICE_BUCKET_BOUNDARIES.length - 1], max: null, count: bucket.count };
+        }
+        const index = PRICE_BUCKET_BOUNDARIES.indexOf(bucket._id as number);
+        return { min: bucket._id, max: PRICE_BUCKET_BOUNDARIES[index + 1], count: bucket.count };
+    });
+
+// categoryName আর searchGrams নতুন করে হিসাব করা (ক্যাটাগরি রিনেম বা পুরনো ডেটা reindex এর সময়)
+export const refreshProductSearchFields = async (filter: FilterQuery<IProduct> = {}) => {
+    const products = await Product.find(filter).select('name brand category').lean();
+    if (products.length === 0) return 0;
+
+    const categories = await Category.find({ _id: { $in: products.map(product => product.category) } }).select('name').lean();
+    const categoryNames = new Map(categories.map(category => [String(category._id), category.name]));
+
+    await Product.bulkWrite(products.map(product => {
+        const categoryName = categoryNames.get(String(product.category));
+        return {
+            updateOne: {
+                filter: { _id: product._id },
+                update: { $set: { categoryName, searchGrams: buildProductSearchGrams(product.name, product.brand, categoryName) } },
+            },
+        };
+    }));
+    return products.length;
+};
@@ -0,0 +1,118 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ApiError } from './errors';
+import { describeMiddleware } from './routeMeta';
+
+// ================== STORE ==================
+// একাধিক সার্ভার ইনস্ট্যান্স হলে Redis এর মতো শেয়ার্ড স্টোর setRateLimitStore দিয়ে বসানো যাবে
+export interface RateLimitHit {
+    count: number; // এই উইন্ডোতে এ পর্যন্ত কতবার
+    resetAt: number; // উইন্ডো কখন শেষ (ms)
+}
+
+export interface RateLimitStore {
+    increment(key: string, windowMs: number): Promise<RateLimitHit>;
+    reset(key: string): Promise<void>;
+}
+
+// fixed window কাউন্টার; মেয়াদ শেষ হওয়া key গুলো মিনিটে একবার মুছে ফেলা হয়
+export class MemoryRateLimitStore implements RateLimitStore {
+    private hits = new Map<string, RateLimitHit>();
+
+    constructor(sweepIntervalMs = 60 * 1000) {
+        setInterval(() => this.sweep(), sweepIntervalMs).unref();
+    }
+
+    async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+        const now = Date.now();
+        const current = this.hits.get(key);
+        if (!current || current.resetAt <= now) {
+            const hit = { count: 1, resetAt: now + windowMs };
+            this.hits.set(key, hit);
+            return hit;
+        }
+        current.count += 1;
+        return current;
+    }
+
+    async reset(key: string): Promise<void> {
+        this.hits.delete(key);
+    }
+
+    private sweep() {
+        const now = Date.now();
+        for (const [key, hit] of this.hits) {
+            if (hit.resetAt <= now) this.hits.delete(key);
+        }
+    }
+}
+
+let store: RateLimitStore | null = null;
+const getRateLimitStore = () => {
+    if (!store) store = new MemoryRateLimitStore();
+    return store;
+};
+export const setRateLimitStore = (custom: RateLimitStore) => {
+    store = custom;
+};
+
+// ================== RULES ==================
+export interface RateLimitRule {
+    max: number;
+    windowSeconds: number;
+    keyBy: 'ip' | 'user'; // user = লগইন করা ইউজারের ইমেইল (verifyToken এর পরে), না থাকলে IP
+}
+
+// ডিফল্ট লিমিট; env এ RATE_LIMIT_<NAME>=max/windowSeconds দিয়ে বদলানো যায়, যেমন RATE_LIMIT_AUTH=20/900
+export const RATE_LIMITS = {
+    api: { max: 300, windowSeconds: 60, keyBy: 'ip' }, // সব /api রুট মিলিয়ে
+    auth: { max: 10, windowSeconds: 15 * 60, keyBy: 'ip' }, // /jwt, লগইন (পাসওয়ার্ড অনুমান ঠেকাতে)
+    refresh: { max: 30, windowSeconds: 15 * 60, keyBy: 'ip' },
+    signup: { max: 5, windowSeconds: 60 * 60, keyBy: 'ip' },
+    orders: { max: 10, windowSeconds: 10 * 60, keyBy: 'user' }, // অর্ডার/পেমেন্ট শুরু করা
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+export const getRateLimitRule = (name: RateLimitName): RateLimitRule => {
+    const rule: RateLimitRule = RATE_LIMITS[name];
+    const override = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+    const match = override?.match(/^(\d+)\/(\d+)$/);
+    if (!match) return rule;
+    return { ...rule, max: Number(match[1]), windowSeconds: Number(match[2]) };
+};
+
+// লোকাল ডেভেলপমেন্ট/লোড টেস্টে বন্ধ রাখার জন্য RATE_LIMIT_ENABLED=false
+const isRateLimitEnabled = () => process.env.RATE_LIMIT_ENABLED !== 'false';
+
+const getClientKey = (req: Request, keyBy: RateLimitRule['keyBy']) => {
+    const email = (req as any).decoded?.email;
+    if (keyBy === 'user' && email) return `user:${email}`;
+    // প্রক্সির পেছনে থাকলে req.ip সঠিক হতে TRUST_PROXY_HOPS সেট করতে হবে
+    return `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`;
+};
+
+// ================== MIDDLEWARE ==================
+// ✅ লিমিট পার হলে 429 TOO_MANY_REQUESTS আর Retry-After হেডার; স্টোরে সমস্যা হলে রিকোয়েস্ট আটকানো হয় না
+export const rateLimit = (name: RateLimitName): RequestHandler => describeMiddleware(async (req: Request, res: Response, next: NextFunction) => {
+    if (!isRateLimitEnabled()) return next();
+    const rule = getRateLimitRule(name);
+
+    let hit: RateLimitHit;
+    try {
+        hit = await getRateLimitStore().increment(`${name}:${getClientKey(req, rule.keyBy)}`, rule.windowSeconds * 1000);
+    } catch (error) {
+        console.error('Rate Limit Store Error:', error);
+        return next();
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((hit.resetAt - Date.now()) / 1000));
+    res.setHeader('RateLimit-Limit', rule.max);
+    res.setHeader('RateLimit-Remaining', Math.max(0, rule.max - hit.count));
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (hit.count > rule.max) {
+        res.setHeader('Retry-After', resetSeconds);
+        return next(new ApiError(429, 'Too many requests. Please try again later.', { details: { retryAfter: resetSeconds } }));
+    }
+    next();
+}, { rateLimit: name });
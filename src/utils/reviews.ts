@@ -0,0 +1,20 @@
+import mongoose from 'mongoose';
+import Order from '../models/OrderModel';
+import Product from '../models/ProductModel';
+import Review from '../models/ReviewModel';
+
+// ইউজারের এমন একটি ডেলিভারড অর্ডার যেখানে প্রোডাক্টটি আছে (verified purchase)
+export const findDeliveredOrderWithProduct = (userId: unknown, productId: unknown) =>
+    Order.findOne({ user: userId, orderStatus: 'delivered', 'items.product': productId }).sort({ createdAt: -1 });
+
+// লুকানো রিভিউ বাদ দিয়ে প্রোডাক্টের গড় রেটিং আর রিভিউ সংখ্যা আপডেট
+export const refreshProductRating = async (productId: unknown) => {
+    const [stats] = await Review.aggregate([
+        { $match: { product: new mongoose.Types.ObjectId(String(productId)), isHidden: false } },
+        { $group: { _id: null, averageRating: { $avg: '$rating' }, reviewCount: { $sum: 1 } } },
+    ]);
+    await Product.updateOne(
+        { _id: productId },
+        { averageRating: stats ? Math.round(stats.averageRating * 10) / 10 : 0, reviewCount: stats?.reviewCount || 0 }
+    );
+};
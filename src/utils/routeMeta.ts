@@ -0,0 +1,20 @@
+import type { RequestSchemas } from './validation';
+
+// রুটের মিডলওয়্যারগুলো (verifyToken, verifyRole, validate, আপলোড, রেট লিমিট) নিজেদের তথ্য এখানে রেখে যায়,
+// যাতে OpenAPI ডকুমেন্ট রুটের আসল সংজ্ঞা থেকেই তৈরি হয় (openapi.ts)
+export interface MiddlewareMeta {
+    auth?: boolean; // Bearer access token লাগবে
+    roles?: string[]; // এই রোলগুলোর যেকোনো একটি লাগবে
+    schemas?: RequestSchemas;
+    upload?: { field: string; multiple: boolean; kind: 'image' | 'spreadsheet' };
+    rateLimit?: string; // RATE_LIMITS এর নাম
+}
+
+const registry = new WeakMap<Function, MiddlewareMeta>();
+
+export const describeMiddleware = <T extends Function>(handler: T, meta: MiddlewareMeta): T => {
+    registry.set(handler, { ...registry.get(handler), ...meta });
+    return handler;
+};
+
+export const getMiddlewareMeta = (handler: Function): MiddlewareMeta | undefined => registry.get(handler);
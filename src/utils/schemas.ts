@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { USER_LANGUAGES, USER_ROLES } from '../models/UserModel';
+import { ORDER_STATUSES, RETURN_STATUSES } from '../models/OrderModel';
+import { COUPON_TYPES } from '../models/CouponModel';
+import { SHIPPING_FEE_TYPES } from '../models/DeliveryZoneModel';
+import { PRODUCT_ALERT_TYPES } from '../models/ProductAlertModel';
+import { PRODUCT_SORTS, MAX_PAGE_LIMIT } from './products';
+import { SPREADSHEET_FORMATS } from './productImport';
+import { ANALYTICS_INTERVALS } from './analytics';
+import { booleanString, commaList, numeric, objectId, positiveInt } from './validation';
+
+// প্রতিটি রুটের body/params/query স্কিমা; এখানে নেই এমন ফিল্ড রুটে পৌঁছায় না।
+// স্কিমা শুধু আকার আর টাইপ দেখে, ব্যবসায়িক নিয়ম (স্টক, কুপনের লিমিট ...) থাকে utils আর মডেলে।
+
+const text = (max = 200) => z.string().trim().min(1).max(max);
+const optionalText = (max = 2000) => z.string().trim().max(max).optional();
+const money = z.number().min(0);
+const nullable = <T extends z.ZodType>(schema: T) => schema.nullable().optional();
+const date = z.null().or(z.coerce.date());
+
+// ================== PARAMS ==================
+export const idParams = z.object({ id: objectId() });
+export const productIdParams = z.object({ productId: objectId('product id') });
+export const categoryIdParams = z.object({ categoryId: objectId('category id') });
+export const orderIdParams = z.object({ orderId: objectId('order id') });
+export const addressParams = z.object({ addressId: objectId('address id') });
+export const returnParams = z.object({ id: objectId(), returnId: objectId('return id') });
+export const slugParams = z.object({ slug: text() });
+export const emailParams = z.object({ email: z.string().trim().min(1) });
+
+// ================== AUTH ==================
+export const idTokenBody = z.object({ idToken: text(5000), cartToken: z.string().optional() });
+export const loginBody = z.object({ email: text(), password: z.string().min(1), cartToken: z.string().optional() });
+export const refreshTokenBody = z.object({ refreshToken: text(500) });
+
+// ================== USERS & PROFILE ==================
+// role, addresses, deletedAt এখানে নেই - সাইনআপে কেউ নিজেকে admin বানাতে পারবে না।
+// uid কখনো body থেকে নয়: Firebase অ্যাকাউন্টে idToken (uid/email টোকেন থেকে), লোকাল অ্যাকাউন্টে password
+export const signupBody = z.object({
+    idToken: text(5000).optional(),
+    name: text(),
+    email: z.email().trim().optional(),
+    phone: text(30),
+    image: optionalText(),
+    language: z.enum(USER_LANGUAGES).optional(),
+    password: z.string().min(8, 'Password must be at least 8 characters.').max(200).optional(),
+    cartToken: z.string().optional(),
+})
+    .refine(body => Boolean(body.idToken) !== Boolean(body.password), { message: 'Send either idToken or password.', path: ['password'] })
+    .refine(body => body.idToken || body.email, { message: 'Email is required.', path: ['email'] });
+
+// অজানা ফিল্ড (role, email ...) পাঠালে চুপচাপ বাদ না দিয়ে 400, যাতে ক্লায়েন্ট বুঝতে পারে
+export const profileBody = z.strictObject({
+    name: text().optional(),
+    phone: text(30).optional(),
+    image: z.string().trim().max(2000).nullable().optional(),
+    language: z.enum(USER_LANGUAGES, { error: 'Language must be bn or en.' }).optional(),
+});
+
+export const deleteAccountBody = z.object({ password: z.string().optional() });
+
+export const addressBody = z.object({
+    label: text(50).optional(),
+    fullName: text(),
+    phone: text(30).optional(),
+    address: text(500),
+    city: text(100),
+    postalCode: text(20),
+    country: text(100).optional(),
+    isDefault: z.boolean().optional(),
+});
+export const addressUpdateBody = addressBody.partial();
+
+export const roleBody = z.object({ role: z.enum(USER_ROLES, { error: 'Invalid role provided.' }) });
+
+// ================== CART & WISHLIST ==================
+export const cartUpdateBody = z.object({
+    productId: objectId('product id'),
+    variantId: objectId('variant id').nullable().optional(),
+    quantity: numeric.pipe(z.number().int('Quantity must be a whole number (0 or more).').min(0, 'Quantity must be a whole number (0 or more).')).optional(),
+    cartToken: z.string().optional(),
+});
+export const cartLineQuery = z.object({ variantId: objectId('variant id').optional() });
+export const couponCodeBody = z.object({ code: text(50) });
+export const wishlistBody = z.object({ productId: objectId('product id'), cartToken: z.string().optional() });
+export const moveToCartBody = z.object({
+    variantId: objectId('variant id').nullable().optional(),
+    quantity: numeric.pipe(z.number().int().min(1)).optional(),
+});
+export const alertTypesBody = z.object({ types: z.array(z.enum(PRODUCT_ALERT_TYPES)) });
+
+// ================== CATEGORIES ==================
+export const categoryBody = z.object({
+    name: text(100),
+    isNav: z.boolean().optional(),
+    image: z.string().trim().max(2000).nullable().optional(),
+    parentId: objectId('parent id').nullable().optional(),
+});
+export const categoryUpdateBody = categoryBody.partial();
+export const navStatusBody = z.object({ isNav: z.boolean() });
+export const categoryDeleteQuery = z.object({ cascade: booleanString.optional() });
+
+// ================== PRODUCTS ==================
+const pricingSchema = z.object({ regular: money, discount: money.nullable().optional() });
+
+const variantSchema = z.object({
+    _id: objectId('variant id').optional(), // থাকলে পুরনো ভ্যারিয়েন্ট আপডেট, নাহলে নতুন
+    sku: text(64),
+    label: text(100),
+    attributes: z.object({ weight: optionalText(50), packSize: optionalText(50) }).optional(),
+    pricing: pricingSchema,
+    stock: z.number().int().min(0),
+    weight: money.optional(),
+    isDefault: z.boolean().optional(),
+});
+
+// slug, rating, সার্চ ফিল্ড সার্ভার নিজে রাখে; ক্লায়েন্ট সেগুলো পাঠালে বাদ পড়ে
+export const productBody = z.object({
+    name: text(),
+    brand: optionalText(100),
+    category: objectId('category id'),
+    pricing: pricingSchema,
+    stock: z.number().int().min(0).optional(),
+    weight: money.optional(),
+    status: z.boolean().optional(),
+    images: z.array(z.string().trim().max(2000)).max(20).optional(),
+    details: z.object({
+        description: optionalText(20000),
+        specification: optionalText(20000),
+        warranty: optionalText(2000),
+    }).optional(),
+    seo: z.object({ metaTitle: optionalText(200), metaDescription: optionalText(500) }).optional(),
+    variants: z.array(variantSchema).max(50).optional(),
+});
+export const productUpdateBody = productBody.partial();
+export const productStatusBody = z.object({ status: z.boolean({ error: 'Invalid status value.' }) });
+export const imageUrlBody = z.object({ url: text(2000) });
+
+export const productListQuery = z.object({
+    search: z.string().max(200).optional(),
+    category: z.string().trim().min(1).optional(),
+    brand: z.string().max(500).optional(),
+    minPrice: numeric.optional(),
+    maxPrice: numeric.optional(),
+    inStock: booleanString.optional(),
+    status: booleanString.optional(),
+    sort: z.enum(Object.keys(PRODUCT_SORTS) as [string, ...string[]], { error: 'Invalid sort option.' }).optional(),
+    page: positiveInt().default(1),
+    limit: positiveInt(MAX_PAGE_LIMIT).optional(),
+});
+export const suggestQuery = z.object({ q: z.string().max(200).optional(), limit: positiveInt(20).default(8) });
+export const relatedProductsQuery = z.object({ exclude: objectId('product id').optional(), limit: positiveInt(50).default(4) });
+export const productExportQuery = z.object({
+    format: z.enum(SPREADSHEET_FORMATS).default('csv'),
+    category: z.string().trim().min(1).optional(),
+    status: booleanString.optional(),
+});
+export const productImportQuery = z.object({ dryRun: booleanString.optional() });
+
+// ================== REVIEWS ==================
+// multipart থেকে rating স্ট্রিং হয়ে আসে
+const rating = z.preprocess(
+    value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+    z.number({ error: 'Rating must be between 1 and 5.' }).int('Rating must be between 1 and 5.').min(1, 'Rating must be between 1 and 5.').max(5, 'Rating must be between 1 and 5.')
+);
+export const reviewBody = z.object({ rating, comment: optionalText(2000) });
+export const reviewUpdateBody = reviewBody.partial();
+export const reviewListQuery = z.object({ page: positiveInt().default(1), limit: positiveInt(50).default(10) });
+export const adminReviewQuery = z.object({ hidden: booleanString.optional(), productId: objectId('product id').optional() });
+export const moderationBody = z.object({ isHidden: z.boolean({ error: 'Invalid isHidden value.' }), reason: optionalText(500) });
+
+// ================== COUPONS, DELIVERY & TAX ==================
+export const couponBody = z.object({
+    code: text(50),
+    description: optionalText(500),
+    type: z.enum(COUPON_TYPES),
+    value: money,
+    maxDiscount: nullable(money),
+    minOrderValue: money.optional(),
+    usageLimit: nullable(z.number().int().min(1)),
+    perUserLimit: nullable(z.number().int().min(1)),
+    startsAt: date.optional(),
+    expiresAt: date.optional(),
+    isActive: z.boolean().optional(),
+    applicableCategories: z.array(objectId('category id')).optional(),
+    applicableProducts: z.array(objectId('product id')).optional(),
+});
+export const couponUpdateBody = couponBody.partial();
+
+export const deliveryZoneBody = z.object({
+    name: text(100),
+    cities: z.array(text(100)).optional(),
+    postalCodePrefixes: z.array(text(20)).optional(),
+    isDefault: z.boolean().optional(),
+    feeType: z.enum(SHIPPING_FEE_TYPES).optional(),
+    baseFee: money,
+    perItemFee: money.optional(),
+    perKgFee: money.optional(),
+    freeShippingThreshold: nullable(money),
+    estimatedDays: optionalText(50),
+    isActive: z.boolean().optional(),
+});
+export const deliveryZoneUpdateBody = deliveryZoneBody.partial();
+
+export const taxRuleBody = z.object({
+    name: text(100),
+    rate: z.number().min(0).max(100),
+    applicableCategories: z.array(objectId('category id')).optional(),
+    isActive: z.boolean().optional(),
+});
+export const taxRuleUpdateBody = taxRuleBody.partial();
+
+// ================== CHECKOUT & ORDERS ==================
+const shippingAddressSchema = z.object({
+    fullName: text(),
+    phone: text(30).optional(),
+    address: text(500),
+    city: text(100),
+    postalCode: text(20),
+    country: text(100),
+});
+
+export const checkoutBody = z.object({
+    addressId: objectId('address id').optional(),
+    shippingAddress: shippingAddressSchema.optional(),
+    couponCode: z.string().trim().max(50).optional(),
+    paymentMethod: z.string().trim().max(30).optional(),
+});
+
+export const orderStatusBody = z.object({
+    orderStatus: z.enum(ORDER_STATUSES, { error: 'Invalid order status.' }),
+    note: optionalText(500),
+});
+export const cancelOrderBody = z.object({ reason: optionalText(500) });
+export const returnRequestBody = z.object({
+    reason: text(1000),
+    items: z.array(z.object({
+        product: objectId('product id'),
+        variant: objectId('variant id').nullable().optional(),
+        quantity: z.number().int().min(1),
+    })).min(1),
+});
+export type ReturnRequestInput = z.output<typeof returnRequestBody>;
+export const resolveReturnBody = z.object({
+    action: z.enum(['approve', 'reject'], { error: 'Invalid action.' }),
+    note: optionalText(500),
+    restock: z.boolean({ error: 'Invalid restock value.' }).optional(),
+});
+export const returnListQuery = z.object({ status: z.enum(RETURN_STATUSES, { error: 'Invalid return status.' }).optional() });
+
+// তারিখ parseDateRange যাচাই করে (শুধু তারিখ দিলে দিনের শেষ পর্যন্ত ধরার জন্য স্ট্রিংই রাখা হয়)
+const dateRangeQuery = { from: z.string().optional(), to: z.string().optional() };
+export const orderExportQuery = z.object({ ...dateRangeQuery, status: commaList(z.enum(ORDER_STATUSES)).optional() });
+
+// ================== PAYMENTS ==================
+export const initiatePaymentBody = z.object({ orderId: objectId('order id'), provider: z.string().trim().max(30).optional() });
+export const providerParams = z.object({ provider: text(30) });
+// গেটওয়ে কাস্টমারকে এই তিনটির একটিতে ফেরত পাঠায় (sslcommerz.ts এর success_url/fail_url/cancel_url)
+export const paymentCallbackParams = providerParams.extend({
+    result: z.enum(['success', 'fail', 'cancel'], { error: 'Invalid payment result.' }),
+});
+export const mockPaymentParams = z.object({ transactionId: text(60) });
+// amount না দিলে পেমেন্টের পুরো টাকা ধরা হয়
+export const mockSimulateBody = z.object({
+    status: z.enum(['paid', 'failed', 'cancelled'], { error: 'Status must be paid, failed or cancelled.' }),
+    amount: numeric.pipe(money).optional(),
+    eventId: optionalText(100),
+});
+
+// ================== ADMIN ANALYTICS ==================
+export const analyticsQuery = z.object({
+    ...dateRangeQuery,
+    interval: z.enum(ANALYTICS_INTERVALS).optional(),
+    limit: positiveInt().optional(),
+});
+export const lowStockQuery = z.object({ threshold: z.coerce.number().int().min(0).optional(), limit: positiveInt().optional() });
@@ -0,0 +1,68 @@
+import { PipelineStage } from 'mongoose';
+
+// ইউজারের লেখা টেক্সট থেকে regex এর বিশেষ অক্ষরগুলো escape করা
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// বাংলা যুক্তাক্ষর/কার-চিহ্ন যেন একই ভাবে তুলনা হয় তাই NFC, আর ইংরেজির জন্য lowercase
+export const normalizeSearchText = (value: string) =>
+    value.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+
+const GRAM_SIZE = 3;
+
+// প্রতিটি শব্দের trigram (শব্দের শুরু/শেষে স্পেস প্যাড সহ)। টাইপো থাকলেও বেশিরভাগ
+// trigram মিলে যায়, তাই "tomoto" দিয়েও "tomato" পাওয়া যায়।
+export const buildNGrams = (value: string): string[] => {
+    const grams = new Set<string>();
+    for (const word of normalizeSearchText(value).split(' ')) {
+        if (!word) continue;
+        const chars = Array.from(` ${word} `);
+        if (chars.length <= GRAM_SIZE) {
+            grams.add(chars.join(''));
+            continue;
+        }
+        for (let i = 0; i <= chars.length - GRAM_SIZE; i++) {
+            grams.add(chars.slice(i, i + GRAM_SIZE).join(''));
+        }
+    }
+    return Array.from(grams);
+};
+
+// কত ভাগ query trigram মিললে টাইপো-ম্যাচ হিসেবে ধরা হবে
+const MIN_GRAM_SIMILARITY = 0.35;
+
+export interface SearchStages {
+    match: Record<string, unknown>;
+    scoring: PipelineStage[];
+}
+
+// $text (weighted relevance) আর n-gram মিল একসাথে: যেকোনো একটিতে মিললেই রেজাল্টে আসবে,
+// আর relevance = textScore + gram মিলের অনুপাত + নামের শুরুতে মিললে বোনাস।
+export const buildSearchStages = (query: string): SearchStages => {
+    const grams = buildNGrams(query);
+    const prefix = normalizeSearchText(query);
+
+    return {
+        match: {
+            $or: [
+                { $text: { $search: query } },
+                ...(grams.length > 0 ? [{ searchGrams: { $in: grams } }] : []),
+            ],
+        },
+        scoring: [
+            {
+                $addFields: {
+                    textScore: { $ifNull: [{ $meta: 'textScore' }, 0] },
+                    gramScore: grams.length > 0
+                        ? { $divide: [{ $size: { $setIntersection: [{ $ifNull: ['$searchGrams', []] }, grams] } }, grams.length] }
+                        : 0,
+                    prefixBoost: prefix
+                        ? { $cond: [{ $regexMatch: { input: { $toLower: '$name' }, regex: `^${escapeRegex(prefix)}` } }, 2, 0] }
+                        : 0,
+                },
+            },
+            { $match: { $or: [{ textScore: { $gt: 0 } }, { gramScore: { $gte: MIN_GRAM_SIMILARITY } }] } },
+            { $addFields: { relevance: { $add: ['$textScore', '$gramScore', '$prefixBoost'] } } },
+            { $project: { textScore: 0, gramScore: 0, prefixBoost: 0, searchGrams: 0 } },
+        ],
+    };
+};
@@ -0,0 +1,51 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiError, FieldError } from './errors';
+
+// ================== SECURITY HEADERS ==================
+// API শুধু JSON/ফাইল দেয়, তাই কোনো পেজে এমবেড বা স্ক্রিপ্ট চালানোর দরকার নেই
+export const securityHeaders = (req: Request, res: Response, next: NextFunction) => {
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('X-Frame-Options', 'DENY');
+    res.setHeader('Referrer-Policy', 'no-referrer');
+    res.setHeader('Content-Security-Policy', "default-src 'none'; frame-ancestors 'none'");
+    res.setHeader('Cross-Origin-Opener-Policy', 'same-origin');
+    if (req.secure) res.setHeader('Strict-Transport-Security', 'max-age=15552000; includeSubDomains');
+    next();
+};
+
+// ================== BODY LIMITS ==================
+// express.json/urlencoded এর limit; প্রোডাক্টের বড় বিবরণও এর মধ্যে এঁটে যায়
+export const getBodyLimit = () => process.env.BODY_LIMIT || '200kb';
+
+// ================== INPUT SANITISATION ==================
+const MAX_INPUT_DEPTH = 10;
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// `$` দিয়ে শুরু key = Mongo অপারেটর ({ "$gt": "" }), `.` থাকলে nested ফিল্ডে লেখা যায় ("pricing.regular")
+const isUnsafeKey = (key: string) => key.startsWith('$') || key.includes('.') || FORBIDDEN_KEYS.has(key);
+
+const findUnsafeKeys = (value: unknown, path: string, depth: number, found: FieldError[]) => {
+    if (value === null || typeof value !== 'object') return;
+    if (depth > MAX_INPUT_DEPTH) {
+        found.push({ field: path, message: 'Input is nested too deeply.' });
+        return;
+    }
+    for (const [key, child] of Object.entries(value)) {
+        const childPath = `${path}.${key}`;
+        if (isUnsafeKey(key)) found.push({ field: childPath, message: 'This field name is not allowed.' });
+        else findUnsafeKeys(child, childPath, depth + 1, found);
+    }
+};
+
+// ✅ সব রুটের আগে body/query তে Mongo অপারেটর বা prototype key থাকলে 400 INVALID_INPUT;
+// validate() স্কিমা না থাকা রুট আর Mixed ফিল্ডগুলোও এতে সুরক্ষিত থাকে। params সবসময় স্ট্রিং, সেগুলো validate() দেখে।
+// multipart রুটে body আসে পরে, তাই আপলোড মিডলওয়্যার (uploads.ts) multer এর পরে আবার এটা চালায়।
+export const sanitizeInput = (req: Request, _res: Response, next: NextFunction) => {
+    const found: FieldError[] = [];
+    findUnsafeKeys(req.body, 'body', 0, found);
+    findUnsafeKeys(req.query, 'query', 0, found);
+    if (found.length > 0) {
+        return next(new ApiError(400, 'Request contains forbidden field names.', { code: 'INVALID_INPUT', fieldErrors: found }));
+    }
+    next();
+};
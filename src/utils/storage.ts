@@ -0,0 +1,107 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { DeleteObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+// ফাইল কোথায় রাখা হবে সেটা এই ইন্টারফেসের পেছনে লুকানো, যাতে লোকাল ডিস্ক থেকে S3/R2/MinIO তে
+// যেতে শুধু STORAGE_DRIVER বদলাতে হয়।
+export interface StorageAdapter {
+    put(key: string, body: Buffer, contentType: string): Promise<string>; // পাবলিক URL ফেরত দেয়
+    delete(key: string): Promise<void>;
+    keyFromUrl(url: string): string | null; // এই স্টোরেজের URL না হলে null
+}
+
+export class LocalDiskStorage implements StorageAdapter {
+    constructor(private rootDir: string, private publicBaseUrl: string) {}
+
+    async put(key: string, body: Buffer): Promise<string> {
+        const filePath = path.join(this.rootDir, key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+        return `${this.publicBaseUrl}/${key}`;
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(path.join(this.rootDir, key), { force: true });
+    }
+
+    keyFromUrl(url: string): string | null {
+        if (!url.startsWith(`${this.publicBaseUrl}/`)) return null;
+        const key = url.slice(this.publicBaseUrl.length + 1);
+        // ../ দিয়ে রুট ফোল্ডারের বাইরে যাওয়া আটকানো
+        return path.normalize(key).startsWith('..') ? null : key;
+    }
+}
+
+export interface S3StorageConfig {
+    bucket: string;
+    region: string;
+    endpoint?: string; // R2, MinIO, DigitalOcean Spaces ইত্যাদির জন্য
+    accessKeyId: string;
+    secretAccessKey: string;
+    publicBaseUrl: string;
+}
+
+export class S3Storage implements StorageAdapter {
+    private client: S3Client;
+
+    constructor(private config: S3StorageConfig) {
+        this.client = new S3Client({
+            region: config.region,
+            endpoint: config.endpoint,
+            forcePathStyle: Boolean(config.endpoint),
+            credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey },
+        });
+    }
+
+    async put(key: string, body: Buffer, contentType: string): Promise<string> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.config.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType,
+            CacheControl: 'public, max-age=31536000, immutable',
+        }));
+        return `${this.config.publicBaseUrl}/${key}`;
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+    }
+
+    keyFromUrl(url: string): string | null {
+        return url.startsWith(`${this.config.publicBaseUrl}/`) ? url.slice(this.config.publicBaseUrl.length + 1) : null;
+    }
+}
+
+export const getLocalUploadDir = () => path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+const createStorage = (): StorageAdapter => {
+    if (process.env.STORAGE_DRIVER === 's3') {
+        const { S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_PUBLIC_URL } = process.env;
+        if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY || !S3_PUBLIC_URL) {
+            throw new Error('S3 storage is not fully configured.');
+        }
+        return new S3Storage({
+            bucket: S3_BUCKET,
+            region: S3_REGION || 'auto',
+            endpoint: S3_ENDPOINT,
+            accessKeyId: S3_ACCESS_KEY_ID,
+            secretAccessKey: S3_SECRET_ACCESS_KEY,
+            publicBaseUrl: S3_PUBLIC_URL.replace(/\/$/, ''),
+        });
+    }
+    const baseUrl = (process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 9000}`).replace(/\/$/, '');
+    return new LocalDiskStorage(getLocalUploadDir(), `${baseUrl}/uploads`);
+};
+
+let storage: StorageAdapter | null = null;
+
+// প্রথমবার ব্যবহারের সময় তৈরি হয়, যাতে dotenv আগে লোড হয়ে যায়
+export const getStorage = (): StorageAdapter => {
+    if (!storage) storage = createStorage();
+    return storage;
+};
+
+export const setStorage = (adapter: StorageAdapter) => {
+    storage = adapter;
+};
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import multer from 'multer';
+import sharp from 'sharp';
+import { getStorage } from './storage';
+import { ApiError } from './errors';
+import { describeMiddleware } from './routeMeta';
+import { sanitizeInput } from './security';
+
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const getMaxImageSize = () => Number(process.env.MAX_IMAGE_SIZE_MB || 5) * 1024 * 1024;
+export const MAX_IMAGES_PER_UPLOAD = 8;
+
+const IMAGE_MAX_WIDTH = 1600;
+const THUMBNAIL_SIZE = 300;
+const THUMBNAIL_SUFFIX = '-thumb';
+
+export class UploadError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'UPLOAD_INVALID' });
+    }
+}
+
+// প্রথম রিকোয়েস্টে তৈরি হয়, যাতে .env এর MAX_IMAGE_SIZE_MB কাজ করে
+let upload: multer.Multer | null = null;
+const getUpload = () => {
+    if (!upload) {
+        upload = multer({
+            storage: multer.memoryStorage(),
+            limits: { fileSize: getMaxImageSize(), files: MAX_IMAGES_PER_UPLOAD },
+            fileFilter: (_req, file, cb) => {
+                if (!ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+                    return cb(new UploadError(`Only ${ALLOWED_IMAGE_TYPES.join(', ')} images are allowed.`));
+                }
+                cb(null, true);
+            },
+        });
+    }
+    return upload;
+};
+
+// বাল্ক ইমপোর্টের CSV/XLSX ফাইল (ছবির চেয়ে আলাদা লিমিট আর টাইপ)
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+export const getMaxSpreadsheetSize = () => Number(process.env.MAX_IMPORT_SIZE_MB || 10) * 1024 * 1024;
+
+let spreadsheetUpload: multer.Multer | null = null;
+const getSpreadsheetUpload = () => {
+    if (!spreadsheetUpload) {
+        spreadsheetUpload = multer({
+            storage: multer.memoryStorage(),
+            limits: { fileSize: getMaxSpreadsheetSize(), files: 1 },
+            fileFilter: (_req, file, cb) => {
+                if (!SPREADSHEET_EXTENSIONS.some(extension => file.originalname.toLowerCase().endsWith(extension))) {
+                    return cb(new UploadError(`Only ${SPREADSHEET_EXTENSIONS.join(', ')} files are allowed.`));
+                }
+                cb(null, true);
+            },
+        });
+    }
+    return spreadsheetUpload;
+};
+
+// multer এর এরর গুলোকে ApiError এ রূপান্তর করে সেন্ট্রাল এরর হ্যান্ডলারে পাঠানো।
+// multipart এর টেক্সট ফিল্ড multer এর পরেই req.body তে আসে, তাই এখানে আবার sanitizeInput
+const withUploadErrors = (
+    getHandler: () => RequestHandler,
+    sizeMessage = () => `Image must be smaller than ${getMaxImageSize() / (1024 * 1024)}MB.`
+): RequestHandler => (req: Request, res: Response, next: NextFunction) => {
+    getHandler()(req, res, (err?: unknown) => {
+        if (!err) return sanitizeInput(req, res, next);
+        if (err instanceof multer.MulterError) {
+            if (err.code === 'LIMIT_FILE_SIZE') {
+                return next(new ApiError(413, sizeMessage(), { code: 'FILE_TOO_LARGE' }));
+            }
+            return next(new ApiError(400, err.message, { code: 'UPLOAD_INVALID', fieldErrors: err.field ? [{ field: err.field, message: err.message }] : undefined }));
+        }
+        next(err);
+    });
+};
+
+export const uploadImages = (field: string) => describeMiddleware(
+    withUploadErrors(() => getUpload().array(field, MAX_IMAGES_PER_UPLOAD)),
+    { upload: { field, multiple: true, kind: 'image' } }
+);
+export const uploadImage = (field: string) => describeMiddleware(
+    withUploadErrors(() => getUpload().single(field)),
+    { upload: { field, multiple: false, kind: 'image' } }
+);
+export const uploadSpreadsheet = (field: string) => describeMiddleware(
+    withUploadErrors(
+        () => getSpreadsheetUpload().single(field),
+        () => `File must be smaller than ${getMaxSpreadsheetSize() / (1024 * 1024)}MB.`
+    ),
+    { upload: { field, multiple: false, kind: 'spreadsheet' } }
+);
+
+export interface StoredImage {
+    url: string;
+    thumbnailUrl: string;
+}
+
+// থাম্বনেইলের key মূল ছবির key থেকেই বের করা যায় (…/abc.webp → …/abc-thumb.webp)
+const thumbnailKeyFor = (key: string) => key.replace(/\.webp$/, `${THUMBNAIL_SUFFIX}.webp`);
+
+export const thumbnailUrlFor = (url: string) => url.replace(/\.webp$/, `${THUMBNAIL_SUFFIX}.webp`);
+
+// ছবি যাচাই (শুধু MIME নয়, আসল কনটেন্টও), বড় ছবি ছোট করা, আর থাম্বনেইল বানিয়ে স্টোরেজে রাখা
+export const storeImage = async (file: Express.Multer.File, folder: string): Promise<StoredImage> => {
+    const image = sharp(file.buffer).rotate();
+    try {
+        await image.metadata();
+    } catch {
+        throw new UploadError(`${file.originalname} is not a valid image.`);
+    }
+
+    const [main, thumbnail] = await Promise.all([
+        image.clone().resize({ width: IMAGE_MAX_WIDTH, withoutEnlargement: true }).webp({ quality: 82 }).toBuffer(),
+        image.clone().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' }).webp({ quality: 75 }).toBuffer(),
+    ]);
+
+    const key = `${folder}/${crypto.randomUUID()}.webp`;
+    const storage = getStorage();
+    const url = await storage.put(key, main, 'image/webp');
+    const thumbnailUrl = await storage.put(thumbnailKeyFor(key), thumbnail, 'image/webp');
+    return { url, thumbnailUrl };
+};
+
+export const storeImages = async (files: Express.Multer.File[], folder: string) => {
+    const stored: StoredImage[] = [];
+    try {
+        for (const file of files) stored.push(await storeImage(file, folder));
+    } catch (error) {
+        await deleteImages(stored.map(image => image.url));
+        throw error;
+    }
+    return stored;
+};
+
+// আমাদের স্টোরেজের ছবি হলে (থাম্বনেইল সহ) মুছে ফেলা; বাইরের URL হলে কিছু করবে না।
+// ডিলিট ব্যর্থ হলে শুধু লগ, মূল কাজ থামবে না।
+export const deleteImages = async (urls: (string | null | undefined)[]) => {
+    const storage = getStorage();
+    for (const url of urls) {
+        const key = url ? storage.keyFromUrl(url) : null;
+        if (!key) continue;
+        try {
+            await storage.delete(key);
+            if (key.endsWith('.webp')) await storage.delete(thumbnailKeyFor(key));
+        } catch (error) {
+            console.error("Image Delete Error:", error);
+        }
+    }
+};
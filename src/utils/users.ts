@@ -0,0 +1,95 @@
+import User, { IAddress, IUser } from '../models/UserModel';
+import Order, { IOrder } from '../models/OrderModel';
+import ProductAlert from '../models/ProductAlertModel';
+import Notification from '../models/NotificationModel';
+import { revokeAllRefreshTokens } from './auth';
+import { ApiError } from './errors';
+
+// ================== ADDRESS BOOK ==================
+export class AddressError extends ApiError {
+    constructor(message: string) {
+        super(404, message, { code: 'ADDRESS_NOT_FOUND' });
+    }
+}
+
+export const MAX_ADDRESSES = 10;
+
+// সবসময় ঠিক একটি ডিফল্ট (ঠিকানা থাকলে); defaultId দিলে সেটিই ডিফল্ট হবে
+export const normalizeDefaultAddress = (user: IUser, defaultId?: unknown) => {
+    if (user.addresses.length === 0) return;
+    const target = defaultId
+        ? String(defaultId)
+        : String((user.addresses.find(address => address.isDefault) || user.addresses[0])._id);
+    user.addresses.forEach(address => { address.isDefault = String(address._id) === target; });
+};
+
+export const findAddress = (user: IUser, addressId: unknown) => {
+    const address = user.addresses.find(a => String(a._id) === String(addressId));
+    if (!address) throw new AddressError('Address not found.');
+    return address;
+};
+
+// অর্ডারে ঠিকানার কপি রাখা হয়, যাতে পরে ঠিকানা বদলালে বা মুছলেও পুরনো অর্ডার ঠিক থাকে
+const snapshotAddress = (address: IAddress): IOrder['shippingAddress'] => ({
+    fullName: address.fullName,
+    phone: address.phone,
+    address: address.address,
+    city: address.city,
+    postalCode: address.postalCode,
+    country: address.country,
+});
+
+// addressId > body.shippingAddress > ডিফল্ট ঠিকানা
+export const resolveShippingAddress = (user: IUser, body: { addressId?: unknown; shippingAddress?: unknown }) => {
+    if (body.addressId) return snapshotAddress(findAddress(user, body.addressId));
+    if (body.shippingAddress) return body.shippingAddress as IOrder['shippingAddress'];
+    const defaultAddress = user.addresses.find(address => address.isDefault);
+    return defaultAddress ? snapshotAddress(defaultAddress) : undefined;
+};
+
+// ================== ACCOUNT DELETION ==================
+export class AccountDeletionError extends ApiError {
+    constructor(message: string) {
+        super(409, message, { code: 'ACCOUNT_HAS_OPEN_ORDERS' });
+    }
+}
+
+const OPEN_ORDER_STATUSES = ['pending', 'processing', 'shipped'];
+const DELETED_NAME = 'Deleted user';
+
+// অ্যাকাউন্ট মুছলে অর্ডার থাকে (হিসাবের জন্য), কিন্তু নাম, ফোন আর রাস্তার ঠিকানা সরিয়ে ফেলা হয়।
+// শহর/পোস্টাল কোড থাকে, কারণ সেগুলো ডেলিভারি জোন আর ভ্যাটের রিপোর্টে লাগে।
+export const deleteAccount = async (user: IUser) => {
+    const openOrders = await Order.countDocuments({ user: user._id, orderStatus: { $in: OPEN_ORDER_STATUSES } });
+    if (openOrders > 0) {
+        throw new AccountDeletionError('You have orders in progress. Please wait until they are delivered or cancelled.');
+    }
+
+    await Order.updateMany(
+        { user: user._id },
+        { $set: { 'shippingAddress.fullName': DELETED_NAME, 'shippingAddress.address': 'Removed' }, $unset: { 'shippingAddress.phone': '' } }
+    );
+
+    const id = String(user._id);
+    await User.updateOne(
+        { _id: user._id },
+        {
+            $set: {
+                name: DELETED_NAME,
+                email: `deleted-${id}@deleted.invalid`,
+                uid: `deleted:${id}`,
+                phone: '',
+                role: 'user',
+                cart: [],
+                wishlist: [],
+                addresses: [],
+                deletedAt: new Date(),
+            },
+            $unset: { image: '', passwordHash: '' },
+        }
+    );
+
+    await revokeAllRefreshTokens(id);
+    await ProductAlert.deleteMany({ user: user._id });
+    await Notification.deleteMany({ user: user._id, status: 'queued' });
+};
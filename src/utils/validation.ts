@@ -0,0 +1,80 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { z } from 'zod';
+import { ApiError, FieldError } from './errors';
+import { describeMiddleware } from './routeMeta';
+
+// ================== PRIMITIVES ==================
+// রুটের স্কিমাগুলো এগুলো দিয়ে বানানো হয় (schemas.ts)
+export const objectId = (label = 'id') => z.string().regex(/^[a-f\d]{24}$/i, `Invalid ${label}.`);
+
+// query string এ সবকিছু স্ট্রিং আসে: "true"/"false" → boolean
+export const booleanString = z.enum(['true', 'false']).transform(value => value === 'true');
+
+// multipart/query থেকে আসা সংখ্যা ("12" → 12); খালি স্ট্রিং গ্রহণযোগ্য নয়
+export const numeric = z.preprocess(
+    value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+    z.number({ error: 'Must be a number.' })
+);
+
+export const positiveInt = (max?: number) => {
+    const base = z.preprocess(
+        value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+        z.number({ error: 'Must be a whole number.' }).int('Must be a whole number.').min(1)
+    );
+    return max ? base.pipe(z.number().max(max)) : base;
+};
+
+// কমা দিয়ে আলাদা মান ("delivered,shipped") → অ্যারে
+export const commaList = <T extends z.ZodType<string, string>>(item: T) => z
+    .string()
+    .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+    .pipe(z.array(item));
+
+// ================== MIDDLEWARE ==================
+export interface RequestSchemas {
+    body?: z.ZodType;
+    params?: z.ZodType;
+    query?: z.ZodType;
+}
+
+// অনুমতি নেই এমন ফিল্ড (strictObject) হলে প্রতিটি ফিল্ডের জন্য আলাদা এরর, যেমন body.role
+const toFieldErrors = (location: keyof RequestSchemas, error: z.ZodError): FieldError[] =>
+    error.issues.flatMap(issue => {
+        const path = [location, ...issue.path.map(String)];
+        if (issue.code === 'unrecognized_keys') {
+            return issue.keys.map(key => ({ field: [...path, key].join('.'), message: 'This field cannot be changed here.' }));
+        }
+        return [{ field: path.join('.'), message: issue.message }];
+    });
+
+// ✅ রুটের body/params/query যাচাই: স্কিমায় নেই এমন ফিল্ড বাদ পড়ে (mass assignment ঠেকাতে),
+// টাইপ কনভার্ট হয়, আর ভুল থাকলে 400 VALIDATION_ERROR (সব ফিল্ডের এরর একসাথে)
+export const validate = (schemas: RequestSchemas): RequestHandler => describeMiddleware((req: Request, _res: Response, next: NextFunction) => {
+    const fieldErrors: FieldError[] = [];
+    const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+    for (const location of ['params', 'query', 'body'] as const) {
+        const schema = schemas[location];
+        if (!schema) continue;
+        const result = schema.safeParse(req[location] ?? {});
+        if (result.success) parsed[location] = result.data;
+        else fieldErrors.push(...toFieldErrors(location, result.error));
+    }
+
+    if (fieldErrors.length > 0) {
+        const invalidId = fieldErrors.every(error => error.field.startsWith('params.'));
+        return next(new ApiError(400, invalidId ? 'Invalid id in URL.' : 'Validation failed.', {
+            code: invalidId ? 'INVALID_ID' : 'VALIDATION_ERROR',
+            fieldErrors,
+        }));
+    }
+
+    if ('body' in parsed) req.body = parsed.body;
+    if ('params' in parsed) req.params = parsed.params as Request['params'];
+    // Express 5 এ req.query একটি getter, তাই সরাসরি বসানো যায় না
+    if ('query' in parsed) Object.defineProperty(req, 'query', { value: parsed.query, writable: true, configurable: true });
+    next();
+}, { schemas });
+
+// validate({ query }) এর পরে রুটে টাইপসহ query পড়ার জন্য (Express এর টাইপে সব query স্ট্রিং)
+export const validatedQuery = <T extends z.ZodType>(req: Request, _schema: T) => req.query as unknown as z.output<T>;
@@ -0,0 +1,36 @@
+import { IProduct, IProductVariant } from '../models/ProductModel';
+import { ApiError } from './errors';
+
+// কার্ট/অর্ডারের একটি লাইন চেনার key: একই প্রোডাক্টের আলাদা ভ্যারিয়েন্ট আলাদা লাইন
+export const lineKey = (product: unknown, variant?: unknown) => `${product}:${variant || ''}`;
+
+export const getUnitPrice = (pricing: { regular: number; discount?: number }) => pricing.discount || pricing.regular;
+
+export class VariantError extends ApiError {
+    constructor(message: string) {
+        super(400, message, { code: 'VARIANT_INVALID' });
+    }
+}
+
+// variantId না দিলে ডিফল্ট ভ্যারিয়েন্ট; ভ্যারিয়েন্ট ছাড়া প্রোডাক্টে null (পুরনো সিঙ্গেল-প্রাইস প্রোডাক্ট)
+export const resolveVariant = (product: IProduct, variantId?: unknown): IProductVariant | null => {
+    const variants = product.variants || [];
+    if (variants.length === 0) {
+        if (variantId) throw new VariantError('This product has no variants.');
+        return null;
+    }
+    if (!variantId) return variants.find(variant => variant.isDefault) || variants[0];
+
+    const variant = variants.find(v => String(v._id) === String(variantId));
+    if (!variant) throw new VariantError('Product variant not found.');
+    return variant;
+};
+
+// ভ্যারিয়েন্ট থাকলে তার দাম/স্টক/ওজন, নাহলে প্রোডাক্টের
+export const getSellableUnit = (product: IProduct, variant: IProductVariant | null) => ({
+    price: getUnitPrice(variant ? variant.pricing : product.pricing),
+    stock: variant ? variant.stock : product.stock,
+    weight: (variant ? variant.weight : product.weight) || 0,
+    label: variant?.label,
+    sku: variant?.sku,
+});